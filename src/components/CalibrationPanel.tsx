@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Calibration, CalibrationPatch, NEUTRAL_REFERENCES, neutralReference } from '@/lib/calibration';
+import { hexToRgb } from '@/lib/color-conversions';
+import { ColorData, EMPTY_COLOR, SamplingPoint } from '@/lib/sampling';
+
+interface PatchReference {
+  enabled: boolean;
+  preset: string; // NEUTRAL_REFERENCES id or 'custom'
+  customHex: string;
+}
+
+const DEFAULT_REFERENCE: PatchReference = { enabled: false, preset: 'neutral', customHex: '#808080' };
+
+interface CalibrationPanelProps {
+  points: SamplingPoint[];
+  colors: Record<string, ColorData>;
+  calibrations: Calibration[];
+  activeCalibration: Calibration | null;
+  onSelect: (id: string | null) => void;
+  onSave: (name: string, patches: CalibrationPatch[]) => void;
+  onRemove: (id: string) => void;
+}
+
+export const CalibrationPanel = ({
+  points,
+  colors,
+  calibrations,
+  activeCalibration,
+  onSelect,
+  onSave,
+  onRemove,
+}: CalibrationPanelProps) => {
+  const [references, setReferences] = useState<Record<string, PatchReference>>({});
+  const [name, setName] = useState('');
+  const { toast } = useToast();
+
+  const getReference = (id: string) => references[id] ?? DEFAULT_REFERENCE;
+
+  const updateReference = (id: string, changes: Partial<PatchReference>) => {
+    setReferences(prev => ({ ...prev, [id]: { ...getReference(id), ...changes } }));
+  };
+
+  const buildPatches = (): CalibrationPatch[] | null => {
+    const patches: CalibrationPatch[] = [];
+    for (const point of points) {
+      const reference = getReference(point.id);
+      if (!reference.enabled) continue;
+
+      // Always calibrate against the uncorrected reading
+      const color = colors[point.id] ?? EMPTY_COLOR;
+      const sample = color.raw?.rgb ?? color.rgb;
+      const hex = reference.preset === 'custom'
+        ? reference.customHex
+        : NEUTRAL_REFERENCES.find(preset => preset.id === reference.preset)?.hex;
+      const target = hex ? hexToRgb(hex) : neutralReference(sample);
+      if (!target) return null;
+
+      patches.push({ sample, reference: target });
+    }
+    return patches;
+  };
+
+  const handleSave = () => {
+    const patches = buildPatches();
+    if (!patches) {
+      toast({
+        title: "Invalid Reference",
+        description: "Reference colors must be hex values like #808080.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSave(name.trim(), patches);
+    toast({
+      title: "Calibration Saved",
+      description: `"${name.trim()}" is now applied to every reading`,
+    });
+    setName('');
+  };
+
+  const enabledCount = points.filter(point => getReference(point.id).enabled).length;
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-foreground">White Balance Calibration</h3>
+        <div className="flex items-center gap-2">
+          <Select value={activeCalibration?.id ?? 'none'} onValueChange={(id) => onSelect(id === 'none' ? null : id)}>
+            <SelectTrigger className="h-9 w-48 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No calibration</SelectItem>
+              {calibrations.map(calibration => (
+                <SelectItem key={calibration.id} value={calibration.id}>
+                  {calibration.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeCalibration && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-9 w-9 p-0"
+              onClick={() => onRemove(activeCalibration.id)}
+              aria-label="Delete calibration"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Place a point on a neutral gray or white card, or several points on the patches of a color chart,
+        and enter their known values. One or two patches correct the white balance; three or more fit a full
+        color correction.
+      </p>
+
+      <Separator />
+
+      <div className="space-y-3">
+        {points.map(point => {
+          const reference = getReference(point.id);
+          return (
+            <div key={point.id} className="flex flex-wrap items-center gap-2">
+              <Checkbox
+                id={`reference-${point.id}`}
+                checked={reference.enabled}
+                onCheckedChange={(checked) => updateReference(point.id, { enabled: checked === true })}
+              />
+              <Label htmlFor={`reference-${point.id}`} className="w-32 truncate">
+                {point.name}
+              </Label>
+              <Select
+                value={reference.preset}
+                onValueChange={(preset) => updateReference(point.id, { preset })}
+                disabled={!reference.enabled}
+              >
+                <SelectTrigger className="h-8 w-52 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NEUTRAL_REFERENCES.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Known patch value</SelectItem>
+                </SelectContent>
+              </Select>
+              {reference.preset === 'custom' && (
+                <Input
+                  value={reference.customHex}
+                  onChange={(e) => updateReference(point.id, { customHex: e.target.value })}
+                  disabled={!reference.enabled}
+                  className="h-8 w-28 font-mono text-xs"
+                  aria-label="Reference hex"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Calibration name"
+          className="h-9"
+        />
+        <Button onClick={handleSave} disabled={!enabledCount || !name.trim()}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -1,143 +1,319 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Camera, CameraOff, Copy, Check } from 'lucide-react';
+import {
+  Camera,
+  CameraOff,
+  FileImage,
+  FileUp,
+  FileVideo,
+  Monitor,
+  Play,
+  Plus,
+  ScreenShare,
+  ScreenShareOff,
+  Snowflake,
+  X,
+  ZoomOut,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useCamera } from '@/hooks/use-camera';
+import { useFileSource } from '@/hooks/use-file-source';
+import { useCaptureHistory } from '@/hooks/use-capture-history';
+import { usePalettes } from '@/hooks/use-palettes';
+import { useScreenCapture } from '@/hooks/use-screen-capture';
+import { useVideoPlayback } from '@/hooks/use-video-playback';
+import { useCalibrations } from '@/hooks/use-calibrations';
+import { useCopyTemplates } from '@/hooks/use-copy-templates';
+import { useDeltaETarget } from '@/hooks/use-delta-e-target';
+import { useColorNames } from '@/hooks/use-color-names';
+import { useColorLibraries } from '@/hooks/use-color-libraries';
+import { useSamplingPoints } from '@/hooks/use-sampling-points';
+import { useFrameLoop } from '@/hooks/use-frame-loop';
+import { useFrameSampler } from '@/hooks/use-frame-sampler';
+import { useElementSize } from '@/hooks/use-element-size';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { usePinchZoom } from '@/hooks/use-pinch-zoom';
+import { ColorCard } from '@/components/ColorCard';
+import { PointDragHandlers, SamplingOverlay } from '@/components/SamplingOverlay';
+import { ViewControls } from '@/components/ViewControls';
+import { CameraSettingsBar } from '@/components/CameraSettingsBar';
+import { TrackControlsPanel } from '@/components/TrackControlsPanel';
+import { CalibrationPanel } from '@/components/CalibrationPanel';
+import { ContrastPanel } from '@/components/ContrastPanel';
+import { DeltaEPanel } from '@/components/DeltaEPanel';
+import { CopyTemplatePicker } from '@/components/CopyTemplatePicker';
+import { ColorNamePicker } from '@/components/ColorNamePicker';
+import { ColorLibraryPanel } from '@/components/ColorLibraryPanel';
+import { PixelLoupe } from '@/components/PixelLoupe';
+import { VideoScrubBar } from '@/components/VideoScrubBar';
+import { CaptureHistoryPanel } from '@/components/CaptureHistoryPanel';
+import { applyCalibration } from '@/lib/calibration';
+import { renderTemplate } from '@/lib/copy-templates';
+import { getTargetDelta } from '@/lib/delta-e';
+import { ColorNameMatch } from '@/lib/color-names';
+import { createThumbnail } from '@/lib/capture-history';
+import { matchLibrary } from '@/lib/color-library';
+import { CameraSettings, getDeviceLabel } from '@/lib/camera';
+import { captureFrame, drawFrame, getFrameSize } from '@/lib/frame-capture';
+import { ACCEPTED_FILE_TYPES, getPastedImage, SourceInfo } from '@/lib/frame-source';
+import { ColorData, EMPTY_COLOR, MAX_SAMPLING_POINTS, SamplingPoint, toSourcePixel } from '@/lib/sampling';
+import {
+  DEFAULT_VIEW_OPTIONS,
+  displayToSource,
+  getDisplayAspect,
+  getElementSize,
+  getNativeZoomScale,
+  getStageTransformCss,
+  getVideoTransformCss,
+  ViewOptions,
+  ViewTransform,
+} from '@/lib/view-transform';
 
-interface ColorData {
-  hex: string;
-  rgb: { r: number; g: number; b: number };
-}
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
 
-interface SamplingPoint {
-  x: number; // percentage (0-100)
-  y: number; // percentage (0-100)
-}
+// Focused sliders, lists and menus handle their own keys; the picker must not act on them too
+const WIDGET_SELECTOR = '[role=slider],[role=listbox],[role=menu],[role=menuitem],[role=option]';
+
+const isHandledElsewhere = (e: KeyboardEvent) =>
+  e.defaultPrevented || !!(e.target as HTMLElement).closest?.(WIDGET_SELECTOR);
 
 export const CameraColorPicker = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const stillCanvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [isActive, setIsActive] = useState(false);
-  const [topColor, setTopColor] = useState<ColorData>({ hex: '#000000', rgb: { r: 0, g: 0, b: 0 } });
-  const [bottomColor, setBottomColor] = useState<ColorData>({ hex: '#000000', rgb: { r: 0, g: 0, b: 0 } });
+  const [colors, setColors] = useState<Record<string, ColorData>>({});
   const [copiedColor, setCopiedColor] = useState<string | null>(null);
-  const [topPoint, setTopPoint] = useState<SamplingPoint>({ x: 50, y: 20 });
-  const [bottomPoint, setBottomPoint] = useState<SamplingPoint>({ x: 50, y: 80 });
-  const [isDragging, setIsDragging] = useState<'top' | 'bottom' | null>(null);
+  const {
+    points,
+    addPoint,
+    removePoint,
+    renamePoint,
+    movePoint,
+    reorderPoint,
+    setPointRegion,
+    setPointTemporal,
+    setPointFormats,
+    canAddPoint,
+  } = useSamplingPoints();
+  // pointerId -> point id, so several fingers can drag different points at once
+  const dragPointersRef = useRef(new Map<number, string>());
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
+  // Point targeted by the copy shortcut: the one most recently dragged
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewOptions, setViewOptions] = useState<ViewOptions>(DEFAULT_VIEW_OPTIONS);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  // Snapshot of the feed while frozen; sampling and the preview use it instead of the video
+  const [frozenFrame, setFrozenFrame] = useState<HTMLCanvasElement | null>(null);
+  const containerSize = useElementSize(containerRef);
+  const isMobile = useIsMobile();
   const { toast } = useToast();
+  const camera = useCamera(videoRef, {
+    onDeviceLost: (label) => toast({
+      title: "Camera Disconnected",
+      description: `${label} is no longer available. Choose another camera to continue.`,
+      variant: "destructive",
+    }),
+  });
+  const screen = useScreenCapture(videoRef, {
+    onEnded: () => toast({
+      title: "Screen Sharing Ended",
+      description: "Share your screen again to keep sampling it.",
+    }),
+  });
+  const [pixelExact, setPixelExact] = useState(false);
+  const fileSource = useFileSource(videoRef);
+  const cameraIndex = camera.devices.findIndex(device => device.deviceId === camera.activeDeviceId);
+  const activeSource: SourceInfo | null = camera.isActive
+    ? { kind: 'camera', label: cameraIndex >= 0 ? getDeviceLabel(camera.devices[cameraIndex], cameraIndex) : 'Camera' }
+    : screen.isActive
+      ? { kind: 'screen', label: screen.label }
+      : fileSource.source;
+  const isActive = activeSource !== null;
+  const { zoom, resetZoom, zoomTo, zoomHandlers } = usePinchZoom(containerRef, isActive);
+  const playback = useVideoPlayback(videoRef, activeSource?.kind === 'video');
+  // Still frames (a freeze or an opened image) replace the video element for preview and sampling
+  const stillFrame = frozenFrame ?? fileSource.image;
+  const sourceSize = stillFrame ? getFrameSize(stillFrame) : videoSize;
 
-  const rgbToHex = (r: number, g: number, b: number): string => {
-    return `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
-  };
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
 
-  const getColorAtPoint = useCallback((x: number, y: number): ColorData => {
-    if (!videoRef.current || !canvasRef.current) {
-      return { hex: '#000000', rgb: { r: 0, g: 0, b: 0 } };
-    }
+    // Stream resolution can change mid-session (rotation, track constraints)
+    const updateVideoSize = () => setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    video.addEventListener('loadedmetadata', updateVideoSize);
+    video.addEventListener('resize', updateVideoSize);
+    return () => {
+      video.removeEventListener('loadedmetadata', updateVideoSize);
+      video.removeEventListener('resize', updateVideoSize);
+    };
+  }, []);
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return { hex: '#000000', rgb: { r: 0, g: 0, b: 0 } };
+  useEffect(() => {
+    if (stillFrame && stillCanvasRef.current) drawFrame(stillCanvasRef.current, stillFrame);
+  }, [stillFrame]);
 
-    const video = videoRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    ctx.drawImage(video, 0, 0);
-    
-    const imageData = ctx.getImageData(x, y, 1, 1);
-    const [r, g, b] = imageData.data;
-    
+  // A freeze belongs to the source it was taken from
+  const sourceKey = activeSource ? `${activeSource.kind}:${activeSource.label}` : null;
+  useEffect(() => {
+    setFrozenFrame(null);
+  }, [sourceKey]);
+
+  const viewTransform = useMemo<ViewTransform | null>(() => {
+    if (!sourceSize.width || !sourceSize.height || !containerSize.width || !containerSize.height) return null;
     return {
-      hex: rgbToHex(r, g, b),
-      rgb: { r, g, b }
+      ...viewOptions,
+      zoom,
+      containerWidth: containerSize.width,
+      containerHeight: containerSize.height,
+      sourceWidth: sourceSize.width,
+      sourceHeight: sourceSize.height,
     };
-  }, []);
+  }, [viewOptions, zoom, sourceSize.width, sourceSize.height, containerSize]);
 
-  const updateColors = useCallback(() => {
-    if (!videoRef.current || !isActive) return;
+  // Hold the preview at one source pixel per device pixel while sharing in 1:1 mode
+  const nativeScreenZoom = activeSource?.kind === 'screen' && pixelExact && viewTransform
+    ? getNativeZoomScale(viewTransform, window.devicePixelRatio)
+    : null;
+  useEffect(() => {
+    if (nativeScreenZoom !== null) zoomTo(nativeScreenZoom);
+  }, [nativeScreenZoom, zoomTo]);
 
-    const video = videoRef.current;
-    if (video.videoWidth && video.videoHeight) {
-      // Convert percentage positions to pixel coordinates
-      const topX = Math.floor((topPoint.x / 100) * video.videoWidth);
-      const topY = Math.floor((topPoint.y / 100) * video.videoHeight);
-      const bottomX = Math.floor((bottomPoint.x / 100) * video.videoWidth);
-      const bottomY = Math.floor((bottomPoint.y / 100) * video.videoHeight);
-
-      const newTopColor = getColorAtPoint(topX, topY);
-      const newBottomColor = getColorAtPoint(bottomX, bottomY);
-
-      setTopColor(newTopColor);
-      setBottomColor(newBottomColor);
+  const { calibrations, activeCalibration, setActiveId, saveCalibration, removeCalibration } = useCalibrations();
+  const { templates, defaultTemplate, setDefaultTemplate, addTemplate, removeTemplate } = useCopyTemplates();
+  const { target: deltaETarget, updateTarget: updateDeltaETarget } = useDeltaETarget();
+  const {
+    dictionaries,
+    activeDictionary,
+    setActiveDictionary,
+    addDictionary,
+    removeDictionary,
+    findName,
+  } = useColorNames();
+  const {
+    libraries,
+    activeLibrary,
+    matchCount,
+    tolerance: libraryTolerance,
+    importLibrary,
+    removeLibrary,
+    setActiveLibrary,
+    setMatchSettings,
+  } = useColorLibraries();
+  const { captures, loadError: capturesError, addCapture, removeCapture, clearHistory } = useCaptureHistory();
+  const { palettes } = usePalettes();
+
+  const sampleFrame = useFrameSampler((readings) => {
+    if (!activeCalibration) {
+      setColors(readings);
+      return;
     }
-  }, [getColorAtPoint, isActive, topPoint, bottomPoint]);
 
-  const handleMouseDown = (point: 'top' | 'bottom') => (e: React.MouseEvent) => {
-    e.preventDefault();
-    setIsDragging(point);
-  };
+    const corrected: Record<string, ColorData> = {};
+    Object.entries(readings).forEach(([id, color]) => {
+      corrected[id] = applyCalibration(color, activeCalibration);
+    });
+    setColors(corrected);
+  });
+
+  const colorNames = useMemo(() => {
+    const names: Record<string, ColorNameMatch> = {};
+    if (!activeDictionary) return names;
+    points.forEach(point => {
+      const match = findName((colors[point.id] ?? EMPTY_COLOR).rgb);
+      if (match) names[point.id] = match;
+    });
+    return names;
+  }, [points, colors, activeDictionary, findName]);
+
+  const overlayLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    Object.entries(colorNames).forEach(([id, match]) => {
+      labels[id] = `${match.name} · ΔEok ${match.distance.toFixed(1)}`;
+    });
+    return labels;
+  }, [colorNames]);
+
+  const updateColors = useCallback(() => {
+    if (!videoRef.current || !canvasRef.current || !isActive) return;
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging || !containerRef.current) return;
-
-    const container = containerRef.current;
-    const rect = container.getBoundingClientRect();
-    
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    
-    // Clamp values between 0 and 100
-    const clampedX = Math.max(0, Math.min(100, x));
-    const clampedY = Math.max(0, Math.min(100, y));
-
-    if (isDragging === 'top') {
-      setTopPoint({ x: clampedX, y: clampedY });
-    } else if (isDragging === 'bottom') {
-      setBottomPoint({ x: clampedX, y: clampedY });
+    const source = stillFrame ?? videoRef.current;
+    const { width, height } = getFrameSize(source);
+    if (width && height) {
+      sampleFrame(source, canvasRef.current, points.map(point => ({
+        id: point.id,
+        // Convert percentage positions to pixel coordinates
+        x: toSourcePixel(point.x, width),
+        y: toSourcePixel(point.y, height),
+        region: point.region,
+        temporal: point.temporal,
+      })));
     }
-  }, [isDragging]);
+  }, [isActive, stillFrame, points, sampleFrame]);
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(null);
-  }, []);
+  // A paused video file only changes when seeked, which may not raise a frame callback
+  const isStill = stillFrame !== null || (activeSource?.kind === 'video' && !playback.playing);
+  useFrameLoop(videoRef, updateColors, isActive, isStill);
 
-  useEffect(() => {
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
-      return () => {
-        document.removeEventListener('mousemove', handleMouseMove);
-        document.removeEventListener('mouseup', handleMouseUp);
-      };
+  const toggleFreeze = () => {
+    if (frozenFrame) {
+      setFrozenFrame(null);
+      return;
     }
-  }, [isDragging, handleMouseMove, handleMouseUp]);
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setFrozenFrame(captureFrame(video));
+  };
 
-  useEffect(() => {
-    if (!isActive) return;
+  // Point shown in the loupe and targeted by the copy and nudge shortcuts
+  const activePoint = points.find(point => point.id === selectedId) ?? points[0];
+
+  const dragHandlers: PointDragHandlers = {
+    onPointerDown: (id: string) => (e: React.PointerEvent) => {
+      e.preventDefault();
+      // Keep the container's pinch/pan handler from seeing marker drags
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragPointersRef.current.set(e.pointerId, id);
+      setDraggingIds([...dragPointersRef.current.values()]);
+      setSelectedId(id);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const id = dragPointersRef.current.get(e.pointerId);
+      if (!id || !containerRef.current || !viewTransform) return;
+      e.stopPropagation();
+
+      const rect = containerRef.current.getBoundingClientRect();
+
+      // Map the pointer through zoom, object-fit, mirroring and rotation to the source frame
+      const source = displayToSource(viewTransform, e.clientX - rect.left, e.clientY - rect.top);
 
-    const interval = setInterval(updateColors, 100);
-    return () => clearInterval(interval);
-  }, [updateColors, isActive]);
+      // Clamp values between 0 and 100
+      const clampedX = Math.max(0, Math.min(100, source.x * 100));
+      const clampedY = Math.max(0, Math.min(100, source.y * 100));
+
+      movePoint(id, clampedX, clampedY);
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      if (!dragPointersRef.current.delete(e.pointerId)) return;
+      e.stopPropagation();
+      setDraggingIds([...dragPointersRef.current.values()]);
+    },
+  };
 
   const startCamera = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          width: { ideal: 1280 }, 
-          height: { ideal: 720 },
-          facingMode: 'environment'
-        }
-      });
-      
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-      }
-      setIsActive(true);
+      screen.stop();
+      fileSource.clear();
+      await camera.start();
       toast({
         title: "Camera Started",
         description: "Color sampling is now active",
@@ -153,205 +329,521 @@ export const CameraColorPicker = () => {
   };
 
   const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    setIsActive(false);
+    camera.stop();
     toast({
       title: "Camera Stopped",
       description: "Color sampling has been disabled",
     });
   };
 
-  const copyToClipboard = async (hex: string) => {
+  const toggleScreenShare = async () => {
+    if (screen.isActive) {
+      screen.stop();
+      return;
+    }
     try {
-      await navigator.clipboard.writeText(hex);
-      setCopiedColor(hex);
+      camera.stop();
+      fileSource.clear();
+      await screen.start(pixelExact);
+      toast({
+        title: "Screen Sharing Started",
+        description: "Sampling colors from the shared screen",
+      });
+    } catch (error) {
+      // Dismissing the browser's picker rejects with NotAllowedError
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      console.error('Error sharing screen:', error);
+      toast({
+        title: "Screen Sharing Error",
+        description: "Unable to capture the screen in this browser.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const togglePixelExact = async () => {
+    const next = !pixelExact;
+    setPixelExact(next);
+    if (!next) resetZoom();
+    try {
+      await screen.setPixelExact(next);
+    } catch (error) {
+      console.error('Failed to change capture resolution:', error);
+    }
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      camera.stop();
+      screen.stop();
+      await fileSource.load(file);
+      toast({
+        title: "File Opened",
+        description: `Sampling colors from ${file.name}`,
+      });
+    } catch (error) {
+      console.error('Error opening file:', error);
+      toast({
+        title: "Unable to Open File",
+        description: error instanceof Error ? error.message : `${file.name} could not be decoded.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pasteImageRef = useRef<(data: DataTransfer) => void>();
+  pasteImageRef.current = async (data) => {
+    try {
+      const image = await getPastedImage(data);
+      if (!image) return;
+      camera.stop();
+      screen.stop();
+      // Points are stored as percentages, so they land on the same spots of the new image
+      await fileSource.loadImage(image, 'Pasted image');
+      toast({
+        title: "Image Pasted",
+        description: "Sampling colors from the pasted image",
+      });
+    } catch (error) {
+      console.error('Error pasting image:', error);
+      toast({
+        title: "Unable to Paste Image",
+        description: error instanceof Error ? error.message : "The clipboard image could not be decoded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      // Leave pasting into name fields and template inputs alone
+      const target = e.target as HTMLElement;
+      if (!e.clipboardData || target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName)) return;
+      pasteImageRef.current?.(e.clipboardData);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const switchCamera = async (changes?: Partial<CameraSettings>) => {
+    try {
+      await (changes ? camera.updateSettings(changes) : camera.flip());
+    } catch (error) {
+      console.error('Error switching camera:', error);
+      toast({
+        title: "Camera Error",
+        description: "Unable to switch to the selected camera.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedColor(text);
       setTimeout(() => setCopiedColor(null), 2000);
       toast({
         title: "Copied!",
-        description: `Color ${hex} copied to clipboard`,
+        description: `Color ${text} copied to clipboard`,
       });
     } catch (error) {
       console.error('Failed to copy:', error);
     }
   };
 
+  const capturePoint = async (point: SamplingPoint) => {
+    const source = stillFrame ?? videoRef.current;
+    if (!activeSource || !source) return;
+    const { width, height } = getFrameSize(source);
+    if (!width || !height) return;
+
+    const sourceX = toSourcePixel(point.x, width);
+    const sourceY = toSourcePixel(point.y, height);
+    const color = colors[point.id] ?? EMPTY_COLOR;
+    try {
+      await addCapture({
+        pointName: point.name,
+        color,
+        position: { x: point.x, y: point.y, sourceX, sourceY },
+        timestamp: Date.now(),
+        source: activeSource,
+        thumbnail: createThumbnail(source, sourceX, sourceY),
+      });
+      toast({
+        title: "Color Captured",
+        description: `${color.hex.toUpperCase()} saved to history`,
+      });
+    } catch (error) {
+      console.error('Failed to save capture:', error);
+      toast({
+        title: "Capture Failed",
+        description: "The capture could not be saved on this device.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyRef = useRef<() => void>();
+  copyRef.current = () => {
+    if (!isActive || !activePoint) return;
+    copyToClipboard(renderTemplate(defaultTemplate.template, colors[activePoint.id] ?? EMPTY_COLOR));
+  };
+
+  // Move the active point by whole source pixels for exact placement. Only on
+  // a still frame, so arrow keys keep scrolling the page while sampling live.
+  const nudgeRef = useRef<(dx: number, dy: number) => boolean>();
+  nudgeRef.current = (dx, dy) => {
+    if (!isActive || !isStill || !activePoint || !sourceSize.width || !sourceSize.height) return false;
+    const x = toSourcePixel(activePoint.x, sourceSize.width) + dx;
+    const y = toSourcePixel(activePoint.y, sourceSize.height) + dy;
+    // Aim at the pixel center so rounding never lands on a neighbour
+    movePoint(
+      activePoint.id,
+      Math.max(0, Math.min(100, ((x + 0.5) / sourceSize.width) * 100)),
+      Math.max(0, Math.min(100, ((y + 0.5) / sourceSize.height) * 100))
+    );
+    return true;
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      // Leave typing in name fields and template inputs alone
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (isHandledElsewhere(e)) return;
+
+      const nudge = NUDGE_KEYS[e.key];
+      if (nudge) {
+        if (nudgeRef.current?.(nudge[0], nudge[1])) e.preventDefault();
+      } else if (e.key.toLowerCase() === 'c') {
+        e.preventDefault();
+        copyRef.current?.();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
       {/* Camera Controls */}
       <Card className="p-6 bg-card border-border">
-        <div className="flex items-center justify-between mb-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
           <h2 className="text-2xl font-bold text-foreground">Camera Color Picker</h2>
-          <Button
-            onClick={isActive ? stopCamera : startCamera}
-            variant={isActive ? "destructive" : "default"}
-            size="lg"
-          >
-            {isActive ? (
-              <>
-                <CameraOff className="w-5 h-5 mr-2" />
-                Stop Camera
-              </>
-            ) : (
-              <>
-                <Camera className="w-5 h-5 mr-2" />
-                Start Camera
-              </>
-            )}
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <TrackControlsPanel track={camera.track} />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                openFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="lg" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="w-5 h-5 mr-2" />
+              Open File
+            </Button>
+            <Button
+              onClick={camera.isActive ? stopCamera : startCamera}
+              variant={camera.isActive ? "destructive" : "default"}
+              size="lg"
+            >
+              {camera.isActive ? (
+                <>
+                  <CameraOff className="w-5 h-5 mr-2" />
+                  Stop Camera
+                </>
+              ) : (
+                <>
+                  <Camera className="w-5 h-5 mr-2" />
+                  Start Camera
+                </>
+              )}
+            </Button>
+            <Button
+              onClick={toggleScreenShare}
+              variant={screen.isActive ? "destructive" : "outline"}
+              size="lg"
+            >
+              {screen.isActive ? (
+                <>
+                  <ScreenShareOff className="w-5 h-5 mr-2" />
+                  Stop Sharing
+                </>
+              ) : (
+                <>
+                  <ScreenShare className="w-5 h-5 mr-2" />
+                  Share Screen
+                </>
+              )}
+            </Button>
+          </div>
         </div>
         
         <p className="text-muted-foreground">
-          Start your camera to sample colors from any two points in the video feed. Drag the sampling points to position them wherever you want.
+          Start your camera, share your screen, open or drop an image or video file, or paste an image to sample colors from up to {MAX_SAMPLING_POINTS} points. Drag the sampling points to position them wherever you want, pinch or scroll the preview to zoom in, and freeze the frame to place points to the exact pixel with the arrow keys.
         </p>
+
+        <div className="mt-4 space-y-2">
+          {fileSource.source && (
+            <div className="flex items-center gap-2 text-sm text-foreground">
+              {fileSource.source.kind === 'video' ? <FileVideo className="w-4 h-4" /> : <FileImage className="w-4 h-4" />}
+              <span className="truncate">{fileSource.source.label}</span>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={fileSource.clear} aria-label="Close file">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          {activeSource?.kind === 'screen' && (
+            <div className="flex items-center gap-2 text-sm text-foreground">
+              <Monitor className="w-4 h-4" />
+              <span className="truncate">{activeSource.label}</span>
+              <Button
+                variant={pixelExact ? "default" : "outline"}
+                size="sm"
+                className="h-8"
+                onClick={togglePixelExact}
+                aria-pressed={pixelExact}
+              >
+                1:1 Pixels
+              </Button>
+            </div>
+          )}
+          {activeSource?.kind === 'video' && (
+            <VideoScrubBar
+              playing={playback.playing}
+              currentTime={playback.currentTime}
+              duration={playback.duration}
+              onTogglePlay={playback.togglePlay}
+              onSeek={playback.seek}
+              onStep={playback.step}
+            />
+          )}
+          <CameraSettingsBar
+            devices={camera.devices}
+            settings={camera.settings}
+            activeDeviceId={camera.activeDeviceId}
+            onChange={switchCamera}
+            onFlip={() => switchCamera()}
+          />
+          <ViewControls options={viewOptions} onChange={setViewOptions} />
+        </div>
       </Card>
 
       {/* Video Feed */}
-      <div ref={containerRef} className="relative">
-        <video
-          ref={videoRef}
-          className="w-full rounded-lg bg-secondary"
-          style={{ maxHeight: '60vh' }}
-          autoPlay
-          muted
-          playsInline
-        />
+      <div
+        ref={containerRef}
+        className="relative w-full overflow-hidden rounded-lg bg-secondary touch-none"
+        {...zoomHandlers}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          openFile(e.dataTransfer.files[0]);
+        }}
+        style={{
+          aspectRatio: sourceSize.width && sourceSize.height
+            ? getDisplayAspect(sourceSize.width, sourceSize.height, viewOptions.rotation)
+            : 16 / 9,
+          maxHeight: '60vh'
+        }}
+      >
+        {/* Zoom stage: scaled around the container center */}
+        <div className="absolute inset-0" style={{ transform: getStageTransformCss(zoom) }}>
+          <video
+            ref={videoRef}
+            className={`absolute left-1/2 top-1/2 max-w-none ${stillFrame ? 'invisible' : ''}`}
+            style={{
+              ...(viewTransform ? getElementSize(viewTransform) : { width: '100%', height: '100%' }),
+              objectFit: viewOptions.fit,
+              imageRendering: nativeScreenZoom !== null ? 'pixelated' : undefined,
+              transform: getVideoTransformCss(viewOptions)
+            }}
+            autoPlay
+            muted
+            playsInline
+          />
+          {stillFrame && (
+            <canvas
+              ref={stillCanvasRef}
+              className="absolute left-1/2 top-1/2 max-w-none"
+              style={{
+                ...(viewTransform ? getElementSize(viewTransform) : { width: '100%', height: '100%' }),
+                objectFit: viewOptions.fit,
+                imageRendering: 'pixelated',
+                transform: getVideoTransformCss(viewOptions)
+              }}
+            />
+          )}
+        </div>
         <canvas ref={canvasRef} className="hidden" />
+
+        {!isActive && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground pointer-events-none">
+            Drop an image or video file here, or paste an image
+          </div>
+        )}
         
-        {isActive && (
-          <>
-            {/* Sampling Points Overlay */}
-            <div className="absolute inset-0">
-              {/* Top sampling point */}
-              <div
-                className={`absolute w-6 h-6 border-2 border-sampling-point rounded-full transform -translate-x-1/2 -translate-y-1/2 cursor-move transition-all duration-200 ${
-                  isDragging === 'top' ? 'scale-125 animate-pulse' : 'hover:scale-110'
-                }`}
-                style={{ 
-                  left: `${topPoint.x}%`, 
-                  top: `${topPoint.y}%`,
-                  backgroundColor: topColor.hex,
-                  pointerEvents: 'all'
-                }}
-                onMouseDown={handleMouseDown('top')}
-              >
-                <div className="w-full h-full rounded-full border-2 border-background shadow-lg" />
-              </div>
-              
-              {/* Bottom sampling point */}
-              <div
-                className={`absolute w-6 h-6 border-2 border-sampling-point rounded-full transform -translate-x-1/2 -translate-y-1/2 cursor-move transition-all duration-200 ${
-                  isDragging === 'bottom' ? 'scale-125 animate-pulse' : 'hover:scale-110'
-                }`}
-                style={{ 
-                  left: `${bottomPoint.x}%`, 
-                  top: `${bottomPoint.y}%`,
-                  backgroundColor: bottomColor.hex,
-                  pointerEvents: 'all'
-                }}
-                onMouseDown={handleMouseDown('bottom')}
-              >
-                <div className="w-full h-full rounded-full border-2 border-background shadow-lg" />
-              </div>
-              
-              {/* Labels */}
-              <div
-                className="absolute bg-glass-overlay/90 backdrop-blur-sm text-foreground px-3 py-1 rounded-lg text-sm font-medium pointer-events-none transform -translate-x-1/2 shadow-lg"
-                style={{ 
-                  left: `${topPoint.x}%`, 
-                  top: `${Math.max(0, topPoint.y - 8)}%` 
-                }}
-              >
-                Top Sample
-              </div>
-              <div
-                className="absolute bg-glass-overlay/90 backdrop-blur-sm text-foreground px-3 py-1 rounded-lg text-sm font-medium pointer-events-none transform -translate-x-1/2 shadow-lg"
-                style={{ 
-                  left: `${bottomPoint.x}%`, 
-                  top: `${Math.min(92, bottomPoint.y + 8)}%` 
-                }}
-              >
-                Bottom Sample
-              </div>
-            </div>
-          </>
+        {isActive && viewTransform && (
+          <SamplingOverlay
+            points={points}
+            colors={colors}
+            labels={overlayLabels}
+            draggingIds={draggingIds}
+            transform={viewTransform}
+            largeTargets={isMobile}
+            dragHandlers={dragHandlers}
+          />
+        )}
+
+        {isActive && activeSource.kind !== 'image' && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="absolute left-3 top-3 shadow-lg"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={toggleFreeze}
+          >
+            {frozenFrame ? <Play className="w-4 h-4 mr-2" /> : <Snowflake className="w-4 h-4 mr-2" />}
+            {frozenFrame ? 'Resume' : 'Freeze'}
+          </Button>
+        )}
+
+        {stillFrame && activePoint && (
+          <div className="absolute left-3 bottom-3 pointer-events-none">
+            <PixelLoupe
+              source={stillFrame}
+              x={toSourcePixel(activePoint.x, sourceSize.width)}
+              y={toSourcePixel(activePoint.y, sourceSize.height)}
+              region={activePoint.region}
+            />
+          </div>
+        )}
+
+        {zoom.scale > 1 && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="absolute right-3 top-3 shadow-lg"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={resetZoom}
+          >
+            <ZoomOut className="w-4 h-4 mr-2" />
+            {zoom.scale.toFixed(1)}×
+          </Button>
         )}
       </div>
 
       {/* Color Display */}
       {isActive && (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {/* Top Color */}
-          <Card className="p-6 bg-card border-border">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-foreground">Top Sample</h3>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => copyToClipboard(topColor.hex)}
-                className="h-8"
-              >
-                {copiedColor === topColor.hex ? (
-                  <Check className="w-4 h-4" />
-                ) : (
-                  <Copy className="w-4 h-4" />
-                )}
-              </Button>
-            </div>
-            
-            <div className="space-y-4">
-              <div
-                className="w-full h-20 rounded-lg border-2 border-border"
-                style={{ backgroundColor: topColor.hex }}
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-foreground">
+              Samples ({points.length}/{MAX_SAMPLING_POINTS})
+            </h3>
+            <div className="flex flex-wrap items-center gap-2">
+              <ColorNamePicker
+                dictionaries={dictionaries}
+                activeDictionary={activeDictionary}
+                onSelect={setActiveDictionary}
+                onAdd={addDictionary}
+                onRemove={removeDictionary}
               />
-              <div className="space-y-2">
-                <div className="font-mono text-lg font-bold text-foreground">
-                  {topColor.hex.toUpperCase()}
-                </div>
-                <div className="text-sm text-muted-foreground">
-                  RGB({topColor.rgb.r}, {topColor.rgb.g}, {topColor.rgb.b})
-                </div>
-              </div>
-            </div>
-          </Card>
-
-          {/* Bottom Color */}
-          <Card className="p-6 bg-card border-border">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-foreground">Bottom Sample</h3>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => copyToClipboard(bottomColor.hex)}
-                className="h-8"
-              >
-                {copiedColor === bottomColor.hex ? (
-                  <Check className="w-4 h-4" />
-                ) : (
-                  <Copy className="w-4 h-4" />
-                )}
-              </Button>
-            </div>
-            
-            <div className="space-y-4">
-              <div
-                className="w-full h-20 rounded-lg border-2 border-border"
-                style={{ backgroundColor: bottomColor.hex }}
+              <CopyTemplatePicker
+                templates={templates}
+                defaultTemplate={defaultTemplate}
+                previewColor={colors[points[0]?.id] ?? EMPTY_COLOR}
+                onDefaultChange={setDefaultTemplate}
+                onAdd={addTemplate}
+                onRemove={removeTemplate}
               />
-              <div className="space-y-2">
-                <div className="font-mono text-lg font-bold text-foreground">
-                  {bottomColor.hex.toUpperCase()}
-                </div>
-                <div className="text-sm text-muted-foreground">
-                  RGB({bottomColor.rgb.r}, {bottomColor.rgb.g}, {bottomColor.rgb.b})
-                </div>
-              </div>
+              <Button variant="outline" size="sm" onClick={addPoint} disabled={!canAddPoint}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Point
+              </Button>
             </div>
-          </Card>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {points.map((point, index) => {
+              const color = colors[point.id] ?? EMPTY_COLOR;
+              return (
+                <ColorCard
+                  key={point.id}
+                  point={point}
+                  color={color}
+                  copyText={renderTemplate(defaultTemplate.template, color)}
+                  copiedText={copiedColor}
+                  targetDelta={getTargetDelta(deltaETarget, color.rgb)}
+                  colorName={colorNames[point.id] ?? null}
+                  libraryMatches={
+                    activeLibrary ? matchLibrary(activeLibrary, color.rgb, matchCount, libraryTolerance) : null
+                  }
+                  isFirst={index === 0}
+                  isLast={index === points.length - 1}
+                  canRemove={points.length > 1}
+                  onCopy={copyToClipboard}
+                  onCapture={() => capturePoint(point)}
+                  onRename={(name) => renamePoint(point.id, name)}
+                  onMove={(offset) => reorderPoint(point.id, offset)}
+                  onRemove={() => removePoint(point.id)}
+                  onRegionChange={(region) => setPointRegion(point.id, region)}
+                  onTemporalChange={(temporal) => setPointTemporal(point.id, temporal)}
+                  onFormatsChange={(formats) => setPointFormats(point.id, formats)}
+                />
+              );
+            })}
+          </div>
+
+          <ContrastPanel points={points} colors={colors} />
+
+          <DeltaEPanel
+            points={points}
+            colors={colors}
+            target={deltaETarget}
+            palettes={palettes}
+            onTargetChange={updateDeltaETarget}
+          />
+
+          <ColorLibraryPanel
+            libraries={libraries}
+            activeLibrary={activeLibrary}
+            matchCount={matchCount}
+            tolerance={libraryTolerance}
+            palettes={palettes}
+            onSelect={setActiveLibrary}
+            onImport={importLibrary}
+            onRemove={removeLibrary}
+            onMatchSettingsChange={setMatchSettings}
+          />
+
+          <CalibrationPanel
+            points={points}
+            colors={colors}
+            calibrations={calibrations}
+            activeCalibration={activeCalibration}
+            onSelect={setActiveId}
+            onSave={saveCalibration}
+            onRemove={removeCalibration}
+          />
         </div>
       )}
+
+      <CaptureHistoryPanel
+        captures={captures}
+        loadError={capturesError}
+        onCopy={(capture) => copyToClipboard(renderTemplate(defaultTemplate.template, capture.color))}
+        onRemove={(id) => removeCapture(id).catch(error => console.error('Failed to delete capture:', error))}
+        onClear={() => clearHistory().catch(error => console.error('Failed to clear capture history:', error))}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
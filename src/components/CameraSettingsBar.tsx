@@ -0,0 +1,70 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SwitchCamera } from 'lucide-react';
+import { CameraSettings, FRAME_RATE_OPTIONS, getDeviceLabel, RESOLUTION_PRESETS } from '@/lib/camera';
+
+interface CameraSettingsBarProps {
+  devices: MediaDeviceInfo[];
+  settings: CameraSettings;
+  activeDeviceId: string | null;
+  onChange: (changes: Partial<CameraSettings>) => void;
+  onFlip: () => void;
+}
+
+export const CameraSettingsBar = ({ devices, settings, activeDeviceId, onChange, onFlip }: CameraSettingsBarProps) => {
+  // Device ids stay empty until camera permission has been granted
+  const selectable = devices.filter(device => device.deviceId);
+  const selectedDevice = settings.deviceId ?? activeDeviceId ?? '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={selectable.some(device => device.deviceId === selectedDevice) ? selectedDevice : undefined}
+        onValueChange={(deviceId) => onChange({ deviceId })}
+        disabled={!selectable.length}
+      >
+        <SelectTrigger className="h-9 w-56 text-sm">
+          <SelectValue placeholder="Select camera" />
+        </SelectTrigger>
+        <SelectContent>
+          {selectable.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {getDeviceLabel(device, index)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button variant="outline" size="sm" onClick={onFlip} aria-label="Switch between front and back camera">
+        <SwitchCamera className="w-4 h-4 mr-2" />
+        {settings.facingMode === 'environment' ? 'Back' : 'Front'}
+      </Button>
+
+      <Select value={settings.resolution} onValueChange={(resolution) => onChange({ resolution })}>
+        <SelectTrigger className="h-9 w-36 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RESOLUTION_PRESETS.map(preset => (
+            <SelectItem key={preset.id} value={preset.id}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={String(settings.frameRate)} onValueChange={(value) => onChange({ frameRate: Number(value) })}>
+        <SelectTrigger className="h-9 w-24 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FRAME_RATE_OPTIONS.map(rate => (
+            <SelectItem key={rate} value={String(rate)}>
+              {rate} fps
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
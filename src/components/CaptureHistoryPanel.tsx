@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Copy, Download, Plus, Search, Trash2 } from 'lucide-react';
+import { Capture, capturesToCsv, formatCaptureTime, searchCaptures } from '@/lib/capture-history';
+import { downloadFile } from '@/lib/download';
+import { CAPTURE_DRAG_TYPE } from '@/lib/palettes';
+
+interface CaptureHistoryPanelProps {
+  captures: Capture[];
+  loadError?: string | null;
+  onCopy: (capture: Capture) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  // When set, rows get an add button and can be dragged onto a palette
+  onAdd?: (capture: Capture) => void;
+}
+
+export const CaptureHistoryPanel = ({ captures, loadError, onCopy, onRemove, onClear, onAdd }: CaptureHistoryPanelProps) => {
+  const [query, setQuery] = useState('');
+  const shown = searchCaptures(captures, query);
+
+  const exportCsv = () => {
+    downloadFile(`captures-${new Date().toISOString().slice(0, 10)}.csv`, capturesToCsv(shown), 'text/csv');
+  };
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-foreground">Capture History ({captures.length})</h3>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={exportCsv} disabled={!shown.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={!captures.length}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Clear
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear capture history?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All {captures.length} captures will be deleted from this device. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onClear}>Delete All</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, hex, source or date"
+          className="pl-9"
+        />
+      </div>
+
+      {shown.length ? (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {shown.map(capture => (
+            <div
+              key={capture.id}
+              className={`flex items-center gap-3 rounded-lg border border-border p-2 ${onAdd ? 'cursor-grab' : ''}`}
+              draggable={!!onAdd}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(CAPTURE_DRAG_TYPE, capture.id);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+            >
+              <img
+                src={capture.thumbnail}
+                alt=""
+                className="w-12 h-12 shrink-0 rounded"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              <div
+                className="w-12 h-12 shrink-0 rounded border-2 border-border"
+                style={{ backgroundColor: capture.color.hex }}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-mono font-bold text-foreground">{capture.color.hex.toUpperCase()}</span>
+                  <span className="truncate text-sm text-foreground">{capture.pointName}</span>
+                </div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {formatCaptureTime(capture.timestamp)} · {capture.source.label} · ({capture.position.sourceX},{' '}
+                  {capture.position.sourceY})
+                </div>
+              </div>
+              {onAdd && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 shrink-0"
+                  onClick={() => onAdd(capture)}
+                  aria-label="Add to palette"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => onCopy(capture)}
+                aria-label="Copy color"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => onRemove(capture.id)}
+                aria-label="Delete capture"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className={`text-sm ${loadError ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {loadError
+            ? `Capture history could not be loaded: ${loadError}`
+            : captures.length
+              ? 'No captures match your search.'
+              : 'Captured samples will appear here.'}
+        </p>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,210 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ArrowDown, ArrowUp, BookmarkPlus, Check, Copy, Trash2 } from 'lucide-react';
+import { SampleRegionControls } from '@/components/SampleRegionControls';
+import { TemporalControls } from '@/components/TemporalControls';
+import { ColorFormatList } from '@/components/ColorFormatList';
+import { ColorFormatId } from '@/lib/color-formats';
+import { ColorNameMatch } from '@/lib/color-names';
+import { LibraryMatchResult } from '@/lib/color-library';
+import { DELTA_E_METHODS, TargetDelta } from '@/lib/delta-e';
+import { ColorData, SampleRegion, SamplingPoint, TemporalSettings } from '@/lib/sampling';
+
+interface ColorCardProps {
+  point: SamplingPoint;
+  color: ColorData;
+  copyText: string; // the color in the default copy format
+  copiedText: string | null;
+  targetDelta: TargetDelta | null;
+  colorName: ColorNameMatch | null;
+  libraryMatches: LibraryMatchResult | null;
+  isFirst: boolean;
+  isLast: boolean;
+  canRemove: boolean;
+  onCopy: (text: string) => void;
+  onCapture: () => void;
+  onRename: (name: string) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+  onRegionChange: (region: SampleRegion) => void;
+  onTemporalChange: (temporal: TemporalSettings) => void;
+  onFormatsChange: (formats: ColorFormatId[]) => void;
+}
+
+export const ColorCard = ({
+  point,
+  color,
+  copyText,
+  copiedText,
+  targetDelta,
+  colorName,
+  libraryMatches,
+  isFirst,
+  isLast,
+  canRemove,
+  onCopy,
+  onCapture,
+  onRename,
+  onMove,
+  onRemove,
+  onRegionChange,
+  onTemporalChange,
+  onFormatsChange,
+}: ColorCardProps) => {
+  return (
+    <Card className="p-6 bg-card border-border">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <Input
+          value={point.name}
+          onChange={(e) => onRename(e.target.value)}
+          aria-label="Sample name"
+          className="h-8 text-lg font-semibold text-foreground bg-transparent border-transparent hover:border-border focus-visible:border-border px-2"
+        />
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(-1)}
+            disabled={isFirst}
+            className="h-8 w-8 p-0"
+            aria-label="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(1)}
+            disabled={isLast}
+            className="h-8 w-8 p-0"
+            aria-label="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            disabled={!canRemove}
+            className="h-8 w-8 p-0"
+            aria-label="Remove sample"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCapture}
+            className="h-8 w-8 p-0"
+            aria-label="Capture to history"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onCopy(copyText)}
+            className="h-8"
+          >
+            {copiedText === copyText ? (
+              <Check className="w-4 h-4" />
+            ) : (
+              <Copy className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div
+          className="w-full h-20 rounded-lg border-2 border-border"
+          style={{ backgroundColor: color.hex }}
+        />
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="font-mono text-lg font-bold text-foreground">
+              {color.hex.toUpperCase()}
+            </div>
+            <Badge
+              variant="outline"
+              className={color.stable ? 'border-success text-success' : 'text-muted-foreground'}
+            >
+              {color.stable ? 'Stable' : 'Settling'}
+            </Badge>
+          </div>
+          {colorName && (
+            <div className="text-sm text-foreground">
+              {colorName.name}
+              <span className="ml-2 text-xs font-mono text-muted-foreground">
+                ΔEok {colorName.distance.toFixed(1)}
+              </span>
+            </div>
+          )}
+          <ColorFormatList
+            color={color}
+            formats={point.formats}
+            copiedText={copiedText}
+            onCopy={onCopy}
+            onFormatsChange={onFormatsChange}
+          />
+          {targetDelta && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-mono text-foreground">
+                {DELTA_E_METHODS.find(method => method.id === targetDelta.method)?.label} to target{' '}
+                {targetDelta.value.toFixed(2)}
+              </span>
+              <Badge
+                variant="outline"
+                className={targetDelta.pass ? 'border-success text-success' : 'border-destructive text-destructive'}
+              >
+                {targetDelta.pass ? 'Pass' : 'Fail'}
+              </Badge>
+            </div>
+          )}
+          {libraryMatches && (
+            <div className="space-y-1">
+              {!libraryMatches.withinTolerance && (
+                <Badge variant="outline" className="border-destructive text-destructive">
+                  No library match within tolerance
+                </Badge>
+              )}
+              {libraryMatches.matches.map(match => (
+                <div key={`${match.color.name}-${match.color.code}`} className="flex items-center gap-2 text-sm">
+                  <div
+                    className="w-4 h-4 shrink-0 rounded border border-border"
+                    style={{ backgroundColor: match.color.hex }}
+                  />
+                  <span className="truncate text-foreground">{match.color.name}</span>
+                  {match.color.code && (
+                    <span className="text-xs font-mono text-muted-foreground">{match.color.code}</span>
+                  )}
+                  <span className="ml-auto text-xs font-mono text-muted-foreground">
+                    ΔE00 {match.deltaE.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {color.raw && (
+            <div className="text-xs font-mono text-muted-foreground">
+              Raw {color.raw.hex.toUpperCase()} · RGB({color.raw.rgb.r}, {color.raw.rgb.g}, {color.raw.rgb.b})
+            </div>
+          )}
+          {color.stats && (
+            <div className="text-xs font-mono text-muted-foreground">
+              σ R {color.stats.stdDev.r.toFixed(1)} · G {color.stats.stdDev.g.toFixed(1)} · B {color.stats.stdDev.b.toFixed(1)}
+              {' '}({color.stats.sampleCount} px)
+            </div>
+          )}
+        </div>
+
+        <SampleRegionControls region={point.region} onChange={onRegionChange} />
+        <Separator />
+        <TemporalControls settings={point.temporal} onChange={onTemporalChange} />
+      </div>
+    </Card>
+  );
+};
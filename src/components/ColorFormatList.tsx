@@ -0,0 +1,77 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Check, Copy, ListPlus } from 'lucide-react';
+import { COLOR_FORMATS, ColorFormatId } from '@/lib/color-formats';
+import { ColorData } from '@/lib/sampling';
+
+interface ColorFormatListProps {
+  color: ColorData;
+  formats: ColorFormatId[];
+  copiedText: string | null;
+  onCopy: (text: string) => void;
+  onFormatsChange: (formats: ColorFormatId[]) => void;
+}
+
+export const ColorFormatList = ({ color, formats, copiedText, onCopy, onFormatsChange }: ColorFormatListProps) => {
+  const toggleFormat = (id: ColorFormatId, checked: boolean) => {
+    // Keep the registry order regardless of the order formats were picked in
+    onFormatsChange(
+      COLOR_FORMATS.filter(format => (format.id === id ? checked : formats.includes(format.id))).map(format => format.id)
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      {COLOR_FORMATS.filter(format => formats.includes(format.id)).map(format => {
+        const value = format.format(color);
+        return (
+          <div key={format.id} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <div className="text-xs text-muted-foreground">{format.label}</div>
+              <div className="text-sm font-mono text-foreground truncate">{value}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 shrink-0"
+              onClick={() => onCopy(value)}
+              aria-label={`Copy ${format.label}`}
+            >
+              {copiedText === value ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            </Button>
+          </div>
+        );
+      })}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+            <ListPlus className="w-3.5 h-3.5 mr-1" />
+            Formats
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Show on this card</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {COLOR_FORMATS.map(format => (
+            <DropdownMenuCheckboxItem
+              key={format.id}
+              checked={formats.includes(format.id)}
+              onCheckedChange={(checked) => toggleFormat(format.id, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {format.label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
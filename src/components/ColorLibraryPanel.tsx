@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ColorLibrary,
+  LibraryColor,
+  LibraryParseResult,
+  paletteToLibraryColors,
+  parseColorLibrary,
+} from '@/lib/color-library';
+import { Palette } from '@/lib/palettes';
+
+// Only the first few parse errors are listed
+const MAX_LISTED_ERRORS = 5;
+
+interface ColorLibraryPanelProps {
+  libraries: ColorLibrary[];
+  activeLibrary: ColorLibrary | null;
+  matchCount: number;
+  tolerance: number;
+  palettes: Palette[];
+  onSelect: (id: string | null) => void;
+  onImport: (name: string, colors: LibraryColor[]) => void;
+  onRemove: (id: string) => void;
+  onMatchSettingsChange: (changes: { matchCount?: number; tolerance?: number }) => void;
+}
+
+export const ColorLibraryPanel = ({
+  libraries,
+  activeLibrary,
+  matchCount,
+  tolerance,
+  palettes,
+  onSelect,
+  onImport,
+  onRemove,
+  onMatchSettingsChange,
+}: ColorLibraryPanelProps) => {
+  const [name, setName] = useState('');
+  const [parsed, setParsed] = useState<LibraryParseResult | null>(null);
+  const [fileKey, setFileKey] = useState(0);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setParsed(parseColorLibrary(await file.text()));
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    onImport(name.trim(), parsed.colors);
+    toast({
+      title: "Library Imported",
+      description: `${parsed.colors.length} colors in "${name.trim()}"`,
+    });
+    setName('');
+    setParsed(null);
+    setFileKey(key => key + 1);
+  };
+
+  const importPalette = (id: string) => {
+    const palette = palettes.find(candidate => candidate.id === id);
+    if (!palette) return;
+    onImport(palette.name, paletteToLibraryColors(palette));
+    toast({
+      title: "Library Imported",
+      description: `${palette.swatches.length} colors from palette "${palette.name}"`,
+    });
+  };
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-foreground">Spec Library</h3>
+        <div className="flex items-center gap-2">
+          <Select value={activeLibrary?.id ?? 'none'} onValueChange={(id) => onSelect(id === 'none' ? null : id)}>
+            <SelectTrigger className="h-9 w-48 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No library</SelectItem>
+              {libraries.map(library => (
+                <SelectItem key={library.id} value={library.id}>
+                  {library.name} ({library.colors.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeLibrary && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-9 w-9 p-0"
+              onClick={() => onRemove(activeLibrary.id)}
+              aria-label="Delete library"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Each sample lists its closest library colors by ΔE 2000 and is flagged when none is within tolerance.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor="library-match-count" className="text-sm text-muted-foreground">
+          Matches
+        </Label>
+        <Input
+          id="library-match-count"
+          type="number"
+          min={1}
+          max={10}
+          value={matchCount}
+          onChange={(e) => onMatchSettingsChange({ matchCount: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+          className="h-9 w-16 font-mono text-sm"
+        />
+        <Label htmlFor="library-tolerance" className="text-sm text-muted-foreground">
+          Tolerance ΔE
+        </Label>
+        <Input
+          id="library-tolerance"
+          type="number"
+          min={0}
+          step={0.1}
+          value={tolerance}
+          onChange={(e) => onMatchSettingsChange({ tolerance: Math.max(0, Number(e.target.value) || 0) })}
+          className="h-9 w-20 font-mono text-sm"
+        />
+      </div>
+
+      <Separator />
+
+      {palettes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-sm text-muted-foreground">From a saved palette</Label>
+          <Select value="" onValueChange={importPalette}>
+            <SelectTrigger className="h-9 w-48 text-sm" aria-label="Use palette as library">
+              <SelectValue placeholder="Choose palette" />
+            </SelectTrigger>
+            <SelectContent>
+              {palettes.map(palette => (
+                <SelectItem key={palette.id} value={palette.id} disabled={!palette.swatches.length}>
+                  {palette.name} ({palette.swatches.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Import CSV or JSON</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            key={fileKey}
+            type="file"
+            accept=".csv,.json,.txt"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="h-9 w-64"
+          />
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Library name"
+            className="h-9 w-48"
+          />
+          <Button onClick={handleImport} disabled={!parsed?.colors.length || !name.trim()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Columns: <code className="font-mono">name</code>, <code className="font-mono">hex</code> or{' '}
+          <code className="font-mono">L, a, b</code> (D50), and an optional <code className="font-mono">code</code>.
+        </p>
+        {parsed && (
+          <div className="text-xs text-muted-foreground space-y-1">
+            <div>
+              {parsed.colors.length} colors ready
+              {parsed.errors.length > 0 && `, ${parsed.errors.length} skipped`}
+            </div>
+            {parsed.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+              <div key={error} className="text-destructive">{error}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
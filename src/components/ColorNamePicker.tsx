@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { BookA, Plus, Trash2 } from 'lucide-react';
+import { ColorNameDictionary, ColorNameEntry, parseNameList } from '@/lib/color-names';
+
+interface ColorNamePickerProps {
+  dictionaries: ColorNameDictionary[];
+  activeDictionary: ColorNameDictionary | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (label: string, entries: ColorNameEntry[]) => void;
+  onRemove: (id: string) => void;
+}
+
+export const ColorNamePicker = ({
+  dictionaries,
+  activeDictionary,
+  onSelect,
+  onAdd,
+  onRemove,
+}: ColorNamePickerProps) => {
+  const [label, setLabel] = useState('');
+  const [text, setText] = useState('');
+  const entries = parseNameList(text);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    if (!label) setLabel(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleAdd = () => {
+    onAdd(label.trim(), entries);
+    setLabel('');
+    setText('');
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeDictionary?.id ?? 'none'} onValueChange={(id) => onSelect(id === 'none' ? null : id)}>
+        <SelectTrigger className="h-9 w-48 text-sm" aria-label="Color names">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Point names</SelectItem>
+          {dictionaries.map(dictionary => (
+            <SelectItem key={dictionary.id} value={dictionary.id}>
+              {dictionary.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 w-9 p-0" aria-label="Manage color name lists">
+            <BookA className="w-4 h-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Color Name Lists</DialogTitle>
+            <DialogDescription>
+              Samples are labelled with the perceptually closest name from the selected list.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {dictionaries.map(dictionary => (
+              <div key={dictionary.id} className="flex items-center justify-between gap-2">
+                <div className="text-sm text-foreground">
+                  {dictionary.label}
+                  <span className="ml-2 text-xs text-muted-foreground">{dictionary.entries.length} colors</span>
+                </div>
+                {!dictionary.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    onClick={() => onRemove(dictionary.id)}
+                    aria-label={`Delete ${dictionary.label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>New list</Label>
+            <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Name" />
+            <Input
+              type="file"
+              accept=".csv,.txt,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'Brand Red, #d62828\nBrand Navy, #003049'}
+              className="font-mono text-xs h-28"
+            />
+            <div className="text-xs text-muted-foreground">
+              {entries.length} colors recognized. Accepts CSV lines or JSON like{' '}
+              <code className="font-mono">[{'{"name": "...", "hex": "#..."}'}]</code>.
+            </div>
+            <Button size="sm" onClick={handleAdd} disabled={!label.trim() || !entries.length}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add List
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
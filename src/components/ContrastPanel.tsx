@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight } from 'lucide-react';
+import { apcaContrast, wcagContrast } from '@/lib/contrast';
+import { ColorData, EMPTY_COLOR, SamplingPoint } from '@/lib/sampling';
+
+interface ContrastPanelProps {
+  points: SamplingPoint[];
+  colors: Record<string, ColorData>;
+}
+
+const PassBadge = ({ label, pass }: { label: string; pass: boolean }) => (
+  <Badge
+    variant="outline"
+    className={pass ? 'border-success text-success' : 'border-destructive text-destructive'}
+  >
+    {label} {pass ? 'Pass' : 'Fail'}
+  </Badge>
+);
+
+export const ContrastPanel = ({ points, colors }: ContrastPanelProps) => {
+  const [textId, setTextId] = useState<string | null>(null);
+  const [backgroundId, setBackgroundId] = useState<string | null>(null);
+
+  // Fall back to the first two points when the chosen ones were removed
+  const textPoint = points.find(point => point.id === textId) ?? points[0];
+  const backgroundPoint =
+    points.find(point => point.id === backgroundId) ?? points.find(point => point.id !== textPoint?.id);
+  if (!textPoint || !backgroundPoint) return null;
+
+  const text = colors[textPoint.id] ?? EMPTY_COLOR;
+  const background = colors[backgroundPoint.id] ?? EMPTY_COLOR;
+  const wcag = wcagContrast(text.rgb, background.rgb);
+  const lc = apcaContrast(text.rgb, background.rgb);
+
+  const selectPair = (nextText: string, nextBackground: string) => {
+    setTextId(nextText);
+    setBackgroundId(nextBackground);
+  };
+
+  const pointSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 w-40 text-sm" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {points.map(point => (
+          <SelectItem key={point.id} value={point.id}>
+            {point.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-foreground">Contrast</h3>
+        <div className="flex items-center gap-2">
+          {pointSelect(textPoint.id, (id) => selectPair(id, backgroundPoint.id), 'Text color')}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0"
+            onClick={() => selectPair(backgroundPoint.id, textPoint.id)}
+            aria-label="Swap text and background"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </Button>
+          {pointSelect(backgroundPoint.id, (id) => selectPair(textPoint.id, id), 'Background color')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div
+          className="rounded-lg border-2 border-border p-4 space-y-1"
+          style={{ backgroundColor: background.hex, color: text.hex }}
+        >
+          <p className="text-2xl font-bold">Large text 24px</p>
+          <p className="text-base">Normal body text at 16px for reading.</p>
+          <p className="text-xs">Small print at 12px.</p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-baseline gap-4">
+            <div>
+              <div className="text-xs text-muted-foreground">WCAG 2.x</div>
+              <div className="font-mono text-2xl font-bold text-foreground">{wcag.ratio.toFixed(2)}:1</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">APCA</div>
+              <div className="font-mono text-2xl font-bold text-foreground">Lc {lc.toFixed(1)}</div>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <PassBadge label="AA" pass={wcag.aaNormal} />
+            <PassBadge label="AA Large" pass={wcag.aaLarge} />
+            <PassBadge label="AAA" pass={wcag.aaaNormal} />
+            <PassBadge label="AAA Large" pass={wcag.aaaLarge} />
+          </div>
+        </div>
+      </div>
+
+      {points.length > 2 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Text ↓ / Background →</TableHead>
+              {points.map(point => (
+                <TableHead key={point.id} className="text-center">{point.name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {points.map(row => (
+              <TableRow key={row.id}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                {points.map(column => {
+                  if (row.id === column.id) {
+                    return <TableCell key={column.id} className="text-center text-muted-foreground">—</TableCell>;
+                  }
+                  const rowColor = (colors[row.id] ?? EMPTY_COLOR).rgb;
+                  const columnColor = (colors[column.id] ?? EMPTY_COLOR).rgb;
+                  const cell = wcagContrast(rowColor, columnColor);
+                  const selected = row.id === textPoint.id && column.id === backgroundPoint.id;
+                  return (
+                    <TableCell key={column.id} className="p-1 text-center">
+                      <button
+                        type="button"
+                        className={`w-full rounded-md px-2 py-1 font-mono text-xs ${
+                          selected ? 'ring-2 ring-ring' : ''
+                        } ${cell.aaNormal ? 'text-success' : cell.aaLarge ? 'text-warning' : 'text-destructive'}`}
+                        onClick={() => selectPair(row.id, column.id)}
+                      >
+                        {cell.ratio.toFixed(2)}
+                        <span className="block text-muted-foreground">
+                          Lc {apcaContrast(rowColor, columnColor).toFixed(0)}
+                        </span>
+                      </button>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
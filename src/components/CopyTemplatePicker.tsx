@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Plus, Settings2, Trash2 } from 'lucide-react';
+import { CopyTemplate, renderTemplate, TEMPLATE_PLACEHOLDERS } from '@/lib/copy-templates';
+import { ColorData } from '@/lib/sampling';
+
+interface CopyTemplatePickerProps {
+  templates: CopyTemplate[];
+  defaultTemplate: CopyTemplate;
+  previewColor: ColorData;
+  onDefaultChange: (id: string) => void;
+  onAdd: (label: string, template: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export const CopyTemplatePicker = ({
+  templates,
+  defaultTemplate,
+  previewColor,
+  onDefaultChange,
+  onAdd,
+  onRemove,
+}: CopyTemplatePickerProps) => {
+  const [label, setLabel] = useState('');
+  const [template, setTemplate] = useState('');
+
+  const handleAdd = () => {
+    onAdd(label.trim(), template);
+    setLabel('');
+    setTemplate('');
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={defaultTemplate.id} onValueChange={onDefaultChange}>
+        <SelectTrigger className="h-9 w-52 text-sm" aria-label="Copy format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map(option => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 w-9 p-0" aria-label="Manage copy formats">
+            <Settings2 className="w-4 h-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Copy Formats</DialogTitle>
+            <DialogDescription>
+              The selected format is used by every copy button and the <kbd className="font-mono">C</kbd> shortcut.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {templates.map(option => (
+              <div key={option.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-foreground">{option.label}</div>
+                  <div className="text-xs font-mono text-muted-foreground truncate">
+                    {renderTemplate(option.template, previewColor)}
+                  </div>
+                </div>
+                {!option.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    onClick={() => onRemove(option.id)}
+                    aria-label={`Delete ${option.label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>New template</Label>
+            <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Name" />
+            <Input
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              placeholder="e.g. vec3({rf}, {gf}, {bf})"
+              className="font-mono"
+            />
+            {template && (
+              <div className="text-xs font-mono text-muted-foreground">
+                {renderTemplate(template, previewColor)}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                <span key={placeholder.token}>
+                  <code className="font-mono text-foreground">{placeholder.token}</code> {placeholder.description}
+                </span>
+              ))}
+            </div>
+            <Button size="sm" onClick={handleAdd} disabled={!label.trim() || !template}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Template
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { hexToRgb } from '@/lib/color-conversions';
+import { DELTA_E_METHODS, deltaE, DeltaEMethod, DeltaETarget } from '@/lib/delta-e';
+import { Palette } from '@/lib/palettes';
+import { ColorData, EMPTY_COLOR, SamplingPoint } from '@/lib/sampling';
+
+interface DeltaEPanelProps {
+  points: SamplingPoint[];
+  colors: Record<string, ColorData>;
+  target: DeltaETarget;
+  palettes: Palette[];
+  onTargetChange: (changes: Partial<DeltaETarget>) => void;
+}
+
+export const DeltaEPanel = ({ points, colors, target, palettes, onTargetChange }: DeltaEPanelProps) => {
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+  const [sampleId, setSampleId] = useState<string | null>(null);
+
+  // Fall back to the first two points when the chosen ones were removed
+  const referencePoint = points.find(point => point.id === referenceId) ?? points[0];
+  const samplePoint =
+    points.find(point => point.id === sampleId) ?? points.find(point => point.id !== referencePoint?.id);
+
+  const reference = colors[referencePoint?.id] ?? EMPTY_COLOR;
+  const sample = colors[samplePoint?.id] ?? EMPTY_COLOR;
+  const targetValid = hexToRgb(target.hex) !== null;
+
+  // Targets come from a live point or from a swatch in a saved palette
+  const pickTarget = (value: string) => {
+    const [kind, id, swatchId] = value.split(':');
+    const swatch = kind === 'swatch'
+      ? palettes.find(palette => palette.id === id)?.swatches.find(candidate => candidate.id === swatchId)
+      : undefined;
+    onTargetChange({ hex: swatch ? swatch.hex : (colors[id] ?? EMPTY_COLOR).hex });
+  };
+
+  const pointSelect = (value: string | undefined, onChange: (id: string) => void, label: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 w-40 text-sm" aria-label={label}>
+        <SelectValue placeholder="Point" />
+      </SelectTrigger>
+      <SelectContent>
+        {points.map(point => (
+          <SelectItem key={point.id} value={point.id}>
+            {point.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <h3 className="text-lg font-semibold text-foreground">Color Difference</h3>
+
+      {referencePoint && samplePoint && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {pointSelect(referencePoint.id, setReferenceId, 'Reference point')}
+            <span>vs</span>
+            {pointSelect(samplePoint.id, setSampleId, 'Sample point')}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {DELTA_E_METHODS.map(method => (
+              <div key={method.id} className="rounded-md border border-border p-2">
+                <div className="text-xs text-muted-foreground">{method.label}</div>
+                <div className="font-mono text-lg font-bold text-foreground">
+                  {deltaE(method.id, reference.rgb, sample.rgb).toFixed(2)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="delta-e-target">Target matching</Label>
+          <Switch
+            id="delta-e-target"
+            checked={target.enabled}
+            onCheckedChange={(enabled) => onTargetChange({ enabled })}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Every sample shows its difference from the target and passes when it is within tolerance.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <div
+            className="h-9 w-9 shrink-0 rounded-md border-2 border-border"
+            style={{ backgroundColor: targetValid ? target.hex : 'transparent' }}
+          />
+          <Input
+            value={target.hex}
+            onChange={(e) => onTargetChange({ hex: e.target.value })}
+            className={`h-9 w-28 font-mono text-sm ${targetValid ? '' : 'border-destructive'}`}
+            aria-label="Target hex"
+          />
+          <Select value="" onValueChange={pickTarget}>
+            <SelectTrigger className="h-9 w-40 text-sm" aria-label="Pick target from point or palette">
+              <SelectValue placeholder={palettes.length ? 'Pick target' : 'Pick from point'} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {palettes.length > 0 && <SelectLabel>Points</SelectLabel>}
+                {points.map(point => (
+                  <SelectItem key={point.id} value={`point:${point.id}`}>
+                    {point.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {palettes.filter(palette => palette.swatches.length).map(palette => (
+                <SelectGroup key={palette.id}>
+                  <SelectLabel>{palette.name}</SelectLabel>
+                  {palette.swatches.map(swatch => (
+                    <SelectItem key={swatch.id} value={`swatch:${palette.id}:${swatch.id}`}>
+                      <span className="flex items-center gap-2">
+                        <span className="h-3 w-3 rounded-sm border border-border" style={{ backgroundColor: swatch.hex }} />
+                        {swatch.name || swatch.hex}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={target.method} onValueChange={(method) => onTargetChange({ method: method as DeltaEMethod })}>
+            <SelectTrigger className="h-9 w-36 text-sm" aria-label="Delta E formula">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELTA_E_METHODS.map(method => (
+                <SelectItem key={method.id} value={method.id}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Label htmlFor="delta-e-tolerance" className="text-sm text-muted-foreground">
+            Tolerance
+          </Label>
+          <Input
+            id="delta-e-tolerance"
+            type="number"
+            min={0}
+            step={0.1}
+            value={target.tolerance}
+            onChange={(e) => onTargetChange({ tolerance: Math.max(0, Number(e.target.value) || 0) })}
+            className="h-9 w-20 font-mono text-sm"
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Braces, Copy, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { CODE_EXPORTERS, CodeFormatId, DEFAULT_CODE_EXPORT_OPTIONS, TokenNaming } from '@/lib/palette-code';
+import { getExportFilename } from '@/lib/palette-export';
+import { Palette } from '@/lib/palettes';
+
+interface PaletteCodeDialogProps {
+  palette: Palette;
+}
+
+export const PaletteCodeDialog = ({ palette }: PaletteCodeDialogProps) => {
+  const { toast } = useToast();
+  const [formatId, setFormatId] = useState<CodeFormatId>('css');
+  const [options, setOptions] = useState(DEFAULT_CODE_EXPORT_OPTIONS);
+  const exporter = CODE_EXPORTERS.find(candidate => candidate.id === formatId) ?? CODE_EXPORTERS[0];
+  const code = exporter.generate(palette, options);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({
+        title: "Copied!",
+        description: `${exporter.label} for ${palette.name} copied to clipboard`,
+      });
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!palette.swatches.length}>
+          <Braces className="w-4 h-4 mr-2" />
+          Code
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export as Code</DialogTitle>
+          <DialogDescription>
+            The Tailwind colors read the CSS variables, so export both with the same naming.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={formatId} onValueChange={(id) => setFormatId(id as CodeFormatId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CODE_EXPORTERS.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Token names</Label>
+            <Select
+              value={options.naming}
+              onValueChange={(naming) => setOptions(prev => ({ ...prev, naming: naming as TokenNaming }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="slug">From swatch name</SelectItem>
+                <SelectItem value="index">By position</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Prefix</Label>
+            <Input
+              value={options.prefix}
+              onChange={(e) => setOptions(prev => ({ ...prev, prefix: e.target.value }))}
+              placeholder="e.g. brand"
+            />
+          </div>
+        </div>
+
+        <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs text-foreground" style={{ tabSize: 2 }}>
+          {code}
+        </pre>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={copyCode}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => downloadFile(getExportFilename(palette, exporter.extension), code, exporter.mimeType)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
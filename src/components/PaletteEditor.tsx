@@ -0,0 +1,198 @@
+import { DragEvent, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ChevronLeft, ChevronRight, CopyPlus, Trash2, X } from 'lucide-react';
+import { PaletteCodeDialog } from '@/components/PaletteCodeDialog';
+import { PaletteExportMenu } from '@/components/PaletteExportMenu';
+import { CAPTURE_DRAG_TYPE, Palette, Swatch, SWATCH_DRAG_TYPE } from '@/lib/palettes';
+
+interface PaletteEditorProps {
+  palette: Palette;
+  onChange: (changes: Partial<Pick<Palette, 'name' | 'note'>>) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onDropCapture: (captureId: string, index?: number) => void;
+  onMoveSwatch: (from: number, to: number) => void;
+  onUpdateSwatch: (id: string, changes: Partial<Pick<Swatch, 'name' | 'note'>>) => void;
+  onRemoveSwatch: (id: string) => void;
+}
+
+const acceptsDrop = (e: DragEvent) =>
+  e.dataTransfer.types.includes(CAPTURE_DRAG_TYPE) || e.dataTransfer.types.includes(SWATCH_DRAG_TYPE);
+
+export const PaletteEditor = ({
+  palette,
+  onChange,
+  onDuplicate,
+  onDelete,
+  onDropCapture,
+  onMoveSwatch,
+  onUpdateSwatch,
+  onRemoveSwatch,
+}: PaletteEditorProps) => {
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const dragOver = (e: DragEvent, index: number) => {
+    if (!acceptsDrop(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = e.dataTransfer.types.includes(SWATCH_DRAG_TYPE) ? 'move' : 'copy';
+    setDropIndex(index);
+  };
+
+  // Dropping on a swatch inserts before it; dropping on empty space appends
+  const drop = (e: DragEvent, index: number) => {
+    if (!acceptsDrop(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropIndex(null);
+
+    const swatchIndex = e.dataTransfer.getData(SWATCH_DRAG_TYPE);
+    if (swatchIndex !== '') {
+      const from = Number(swatchIndex);
+      onMoveSwatch(from, from < index ? index - 1 : index);
+      return;
+    }
+    const captureId = e.dataTransfer.getData(CAPTURE_DRAG_TYPE);
+    if (captureId) onDropCapture(captureId, index);
+  };
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={palette.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="flex-1 min-w-0 text-lg font-semibold"
+          aria-label="Palette name"
+        />
+        <PaletteExportMenu palette={palette} />
+        <PaletteCodeDialog palette={palette} />
+        <Button variant="outline" size="sm" onClick={onDuplicate}>
+          <CopyPlus className="w-4 h-4 mr-2" />
+          Duplicate
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{palette.name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The palette and its {palette.swatches.length} swatches will be deleted from this device.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <Textarea
+        value={palette.note}
+        onChange={(e) => onChange({ note: e.target.value })}
+        placeholder="Notes about this palette"
+        rows={2}
+      />
+
+      <div
+        className={`grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 gap-3 rounded-lg border-2 border-dashed p-3 min-h-32 ${
+          dropIndex === palette.swatches.length ? 'border-primary' : 'border-transparent'
+        }`}
+        onDragOver={(e) => dragOver(e, palette.swatches.length)}
+        onDragLeave={() => setDropIndex(null)}
+        onDrop={(e) => drop(e, palette.swatches.length)}
+      >
+        {palette.swatches.map((swatch, index) => (
+          <div
+            key={swatch.id}
+            className={`rounded-lg border-2 p-2 space-y-2 ${dropIndex === index ? 'border-primary' : 'border-border'}`}
+            onDragOver={(e) => dragOver(e, index)}
+            onDrop={(e) => drop(e, index)}
+          >
+            <div
+              className="h-16 rounded cursor-grab"
+              style={{ backgroundColor: swatch.hex }}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(SWATCH_DRAG_TYPE, String(index));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragEnd={() => setDropIndex(null)}
+              title="Drag to reorder"
+            />
+            <Input
+              value={swatch.name}
+              onChange={(e) => onUpdateSwatch(swatch.id, { name: e.target.value })}
+              className="h-8 text-sm"
+              aria-label="Swatch name"
+            />
+            <Input
+              value={swatch.note}
+              onChange={(e) => onUpdateSwatch(swatch.id, { note: e.target.value })}
+              placeholder="Note"
+              className="h-8 text-xs"
+              aria-label="Swatch note"
+            />
+            <div className="flex items-center gap-1">
+              <span className="flex-1 font-mono text-xs text-muted-foreground">{swatch.hex.toUpperCase()}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onMoveSwatch(index, index - 1)}
+                disabled={index === 0}
+                aria-label="Move left"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onMoveSwatch(index, index + 1)}
+                disabled={index === palette.swatches.length - 1}
+                aria-label="Move right"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onRemoveSwatch(swatch.id)}
+                aria-label="Remove swatch"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {!palette.swatches.length && (
+          <p className="col-span-full self-center text-center text-sm text-muted-foreground">
+            Drag captures here, or use the + button in the capture list.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
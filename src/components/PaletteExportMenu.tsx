@@ -0,0 +1,46 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { downloadFile } from '@/lib/download';
+import { getExportFilename, PALETTE_EXPORTERS, PaletteExporter } from '@/lib/palette-export';
+import { Palette } from '@/lib/palettes';
+
+interface PaletteExportMenuProps {
+  palette: Palette;
+}
+
+export const PaletteExportMenu = ({ palette }: PaletteExportMenuProps) => {
+  const exportAs = (exporter: PaletteExporter) => {
+    downloadFile(getExportFilename(palette, exporter.extension), exporter.export(palette), exporter.mimeType);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!palette.swatches.length}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download as</DropdownMenuLabel>
+        {PALETTE_EXPORTERS.map(exporter => (
+          <DropdownMenuItem key={exporter.id} onSelect={() => exportAs(exporter)}>
+            <span className="flex-1">{exporter.label}</span>
+            <span className="ml-4 text-xs text-muted-foreground">
+              {exporter.maxColors && palette.swatches.length > exporter.maxColors
+                ? `first ${exporter.maxColors}`
+                : `.${exporter.extension}`}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { FileUp, Upload } from 'lucide-react';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  findDuplicates,
+  ImportedColor,
+  PALETTE_IMPORT_ACCEPT,
+  PaletteImportResult,
+  parsePaletteFile,
+} from '@/lib/palette-import';
+
+interface PaletteImportDialogProps {
+  onImport: (name: string, colors: ImportedColor[]) => void;
+}
+
+export const PaletteImportDialog = ({ onImport }: PaletteImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<PaletteImportResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const duplicates = useMemo(() => (result ? findDuplicates(result.colors, threshold) : []), [result, threshold]);
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const imported = result?.colors.filter((_, index) => !skipDuplicates || !duplicates[index]) ?? [];
+
+  const handleFile = async (input: HTMLInputElement) => {
+    const file = input.files?.[0];
+    // Cleared so choosing the same file again still fires a change
+    input.value = '';
+    if (!file) return;
+
+    setReadError(null);
+    try {
+      const parsed = parsePaletteFile(file.name, await file.arrayBuffer());
+      setResult(parsed);
+      setName(parsed.name);
+    } catch (error) {
+      console.error('Failed to read palette file:', error);
+      setResult(null);
+      setReadError(`${file.name} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setResult(null);
+      setReadError(null);
+    }
+  };
+
+  const handleImport = () => {
+    onImport(name.trim(), imported);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <FileUp className="w-4 h-4 mr-2" />
+          Import Palette
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Palette</DialogTitle>
+          <DialogDescription>
+            ASE, ACO, GPL, Paint.NET, CSV, JSON design tokens, or CSS custom properties.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept={PALETTE_IMPORT_ACCEPT} onChange={(e) => handleFile(e.target)} />
+
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Palette name"
+                className="h-9 flex-1 min-w-40"
+              />
+              <Label htmlFor="import-duplicate-threshold" className="text-sm text-muted-foreground">
+                Duplicate ΔE
+              </Label>
+              <Input
+                id="import-duplicate-threshold"
+                type="number"
+                min={0}
+                step={0.1}
+                value={threshold}
+                onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+                className="h-9 w-20 font-mono text-sm"
+              />
+              <Switch id="import-skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+              <Label htmlFor="import-skip-duplicates" className="text-sm text-muted-foreground">
+                Skip duplicates
+              </Label>
+            </div>
+
+            <div className="text-sm text-muted-foreground">
+              {result.format.toUpperCase()}: {result.colors.length} colors
+              {duplicateCount > 0 && `, ${duplicateCount} duplicates`}
+              {result.errors.length > 0 && `, ${result.errors.length} skipped`}
+            </div>
+
+            {result.colors.length > 0 && (
+              <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-60 overflow-y-auto">
+                {result.colors.map((color, index) => {
+                  const duplicate = duplicates[index];
+                  const excluded = skipDuplicates && duplicate;
+                  return (
+                    <div
+                      key={index}
+                      className={excluded ? 'opacity-40' : ''}
+                      title={
+                        duplicate
+                          ? `Duplicate of ${result.colors[duplicate.index].name} (ΔE ${duplicate.deltaE.toFixed(2)})`
+                          : color.name
+                      }
+                    >
+                      <div
+                        className={`h-10 rounded border-2 ${duplicate ? 'border-warning' : 'border-border'}`}
+                        style={{ backgroundColor: color.hex }}
+                      />
+                      <div className="truncate text-xs text-foreground">{color.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{color.hex.toUpperCase()}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {result.errors.length > 0 && (
+              <div className="max-h-28 overflow-y-auto rounded-md border border-destructive/50 p-2 text-xs text-destructive space-y-1">
+                {result.errors.map((error, index) => (
+                  <div key={index}>{error}</div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={handleImport} disabled={!imported.length || !name.trim()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import {imported.length} Colors
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
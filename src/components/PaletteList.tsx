@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Combine, Plus } from 'lucide-react';
+import { PaletteImportDialog } from '@/components/PaletteImportDialog';
+import { ImportedColor } from '@/lib/palette-import';
+import { Palette } from '@/lib/palettes';
+
+interface PaletteListProps {
+  palettes: Palette[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onMerge: (ids: string[]) => void;
+  onImport: (name: string, colors: ImportedColor[]) => void;
+}
+
+export const PaletteList = ({ palettes, selectedId, onSelect, onCreate, onMerge, onImport }: PaletteListProps) => {
+  const [name, setName] = useState('');
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+  const create = () => {
+    onCreate(name.trim() || `Palette ${palettes.length + 1}`);
+    setName('');
+  };
+
+  const toggleMerge = (id: string, checked: boolean) => {
+    setMergeIds(prev => (checked ? [...prev, id] : prev.filter(other => other !== id)));
+  };
+
+  const merge = () => {
+    // Keep the list order rather than the order the boxes were ticked
+    onMerge(palettes.filter(palette => mergeIds.includes(palette.id)).map(palette => palette.id));
+    setMergeIds([]);
+  };
+
+  return (
+    <Card className="p-6 bg-card border-border space-y-4">
+      <h3 className="text-lg font-semibold text-foreground">Palettes ({palettes.length})</h3>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          create();
+        }}
+      >
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New palette name" />
+        <Button type="submit" size="sm" className="shrink-0">
+          <Plus className="w-4 h-4 mr-2" />
+          Create
+        </Button>
+      </form>
+
+      <PaletteImportDialog onImport={onImport} />
+
+      {palettes.length ? (
+        <div className="space-y-1">
+          {palettes.map(palette => (
+            <div
+              key={palette.id}
+              className={`flex items-center gap-2 rounded-lg border p-2 ${
+                palette.id === selectedId ? 'border-primary bg-muted' : 'border-border'
+              }`}
+            >
+              <Checkbox
+                checked={mergeIds.includes(palette.id)}
+                onCheckedChange={(checked) => toggleMerge(palette.id, checked === true)}
+                aria-label={`Select ${palette.name} for merging`}
+              />
+              <button
+                type="button"
+                className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                onClick={() => onSelect(palette.id)}
+              >
+                <span className="truncate text-sm font-medium text-foreground">{palette.name}</span>
+                <span className="ml-auto flex shrink-0">
+                  {palette.swatches.slice(0, 6).map(swatch => (
+                    <span
+                      key={swatch.id}
+                      className="-ml-1 h-4 w-4 rounded-full border border-border"
+                      style={{ backgroundColor: swatch.hex }}
+                    />
+                  ))}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">{palette.swatches.length}</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Create a palette to start collecting colors.</p>
+      )}
+
+      {palettes.length > 1 && (
+        <Button variant="outline" size="sm" className="w-full" onClick={merge} disabled={mergeIds.length < 2}>
+          <Combine className="w-4 h-4 mr-2" />
+          Merge {mergeIds.length >= 2 ? mergeIds.length : ''} Selected
+        </Button>
+      )}
+    </Card>
+  );
+};
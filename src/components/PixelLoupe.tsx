@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { FrameSource, getFrameSize } from '@/lib/frame-capture';
+import { SampleRegion } from '@/lib/sampling';
+
+// Source pixels shown across the loupe, and the size of each on screen
+const LOUPE_PIXELS = 15;
+const PIXEL_SIZE = 11;
+const LOUPE_SIZE = LOUPE_PIXELS * PIXEL_SIZE;
+
+interface PixelLoupeProps {
+  source: FrameSource;
+  x: number; // source pixel
+  y: number;
+  region: SampleRegion;
+}
+
+/** Magnified pixel grid around a sampling point, with its kernel outlined. */
+export const PixelLoupe = ({ source, x, y, region }: PixelLoupeProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = getFrameSize(source);
+    const half = Math.floor(LOUPE_PIXELS / 2);
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+
+    // Clip the source rect to the frame so edge points don't stretch
+    const left = Math.max(0, x - half);
+    const top = Math.max(0, y - half);
+    const right = Math.min(width, x + half + 1);
+    const bottom = Math.min(height, y + half + 1);
+    if (right > left && bottom > top) {
+      ctx.drawImage(
+        source,
+        left, top, right - left, bottom - top,
+        (left - (x - half)) * PIXEL_SIZE, (top - (y - half)) * PIXEL_SIZE,
+        (right - left) * PIXEL_SIZE, (bottom - top) * PIXEL_SIZE
+      );
+    }
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 1; i < LOUPE_PIXELS; i++) {
+      ctx.moveTo(i * PIXEL_SIZE + 0.5, 0);
+      ctx.lineTo(i * PIXEL_SIZE + 0.5, LOUPE_SIZE);
+      ctx.moveTo(0, i * PIXEL_SIZE + 0.5);
+      ctx.lineTo(LOUPE_SIZE, i * PIXEL_SIZE + 0.5);
+    }
+    ctx.stroke();
+
+    // Outline the sampling kernel, clamped to the loupe
+    const radius = Math.min(region.radius, half);
+    const start = (half - radius) * PIXEL_SIZE;
+    const extent = (radius * 2 + 1) * PIXEL_SIZE;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#000';
+    ctx.strokeRect(start, start, extent, extent);
+    ctx.strokeStyle = '#fff';
+    ctx.strokeRect(start + 2, start + 2, extent - 4, extent - 4);
+  }, [source, x, y, region.radius]);
+
+  return (
+    <div className="rounded-lg border-2 border-border bg-card shadow-lg overflow-hidden">
+      <canvas ref={canvasRef} width={LOUPE_SIZE} height={LOUPE_SIZE} className="block" />
+      <div className="px-2 py-1 text-xs font-mono text-muted-foreground text-center">
+        {x}, {y}
+      </div>
+    </div>
+  );
+};
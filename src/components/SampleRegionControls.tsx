@@ -0,0 +1,104 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MAX_REGION_RADIUS, RegionShape, RegionStatistic, SampleRegion } from '@/lib/sampling';
+
+const KERNEL_PRESETS = [
+  { label: '1×1', radius: 0 },
+  { label: '3×3', radius: 1 },
+  { label: '5×5', radius: 2 },
+  { label: '11×11', radius: 5 },
+];
+
+const STATISTIC_LABELS: Record<RegionStatistic, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  'trimmed-mean': 'Trimmed mean',
+};
+
+interface SampleRegionControlsProps {
+  region: SampleRegion;
+  onChange: (region: SampleRegion) => void;
+}
+
+export const SampleRegionControls = ({ region, onChange }: SampleRegionControlsProps) => {
+  const preset = KERNEL_PRESETS.find(kernel => kernel.radius === region.radius);
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Kernel</Label>
+        <Select
+          value={preset ? String(preset.radius) : 'custom'}
+          onValueChange={(value) => {
+            if (value !== 'custom') onChange({ ...region, radius: Number(value) });
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KERNEL_PRESETS.map(kernel => (
+              <SelectItem key={kernel.radius} value={String(kernel.radius)}>
+                {kernel.label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Shape</Label>
+        <Select
+          value={region.shape}
+          onValueChange={(value) => onChange({ ...region, shape: value as RegionShape })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="square">Square</SelectItem>
+            <SelectItem value="circle">Circle</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Statistic</Label>
+        <Select
+          value={region.statistic}
+          onValueChange={(value) => onChange({ ...region, statistic: value as RegionStatistic })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATISTIC_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="col-span-3 flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground shrink-0">
+          Radius (px)
+        </Label>
+        <Input
+          type="number"
+          min={0}
+          max={MAX_REGION_RADIUS}
+          value={region.radius}
+          onChange={(e) => {
+            const radius = Math.max(0, Math.min(MAX_REGION_RADIUS, Math.floor(Number(e.target.value) || 0)));
+            onChange({ ...region, radius });
+          }}
+          className="h-8 text-xs"
+        />
+      </div>
+    </div>
+  );
+};
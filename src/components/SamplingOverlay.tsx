@@ -0,0 +1,76 @@
+import { ColorData, EMPTY_COLOR, SamplingPoint } from '@/lib/sampling';
+import { sourceToDisplay, ViewTransform } from '@/lib/view-transform';
+
+// Labels flip below the point when it is closer than this to the top edge
+const LABEL_FLIP_PX = 48;
+
+export interface PointDragHandlers {
+  onPointerDown: (id: string) => (e: React.PointerEvent) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: (e: React.PointerEvent) => void;
+}
+
+interface SamplingOverlayProps {
+  points: SamplingPoint[];
+  colors: Record<string, ColorData>;
+  labels: Record<string, string>; // overrides the point names
+  draggingIds: string[];
+  transform: ViewTransform;
+  largeTargets: boolean;
+  dragHandlers: PointDragHandlers;
+}
+
+export const SamplingOverlay = ({
+  points,
+  colors,
+  labels,
+  draggingIds,
+  transform,
+  largeTargets,
+  dragHandlers,
+}: SamplingOverlayProps) => {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {points.map(point => {
+        const color = colors[point.id] ?? EMPTY_COLOR;
+        const position = sourceToDisplay(transform, point.x / 100, point.y / 100);
+        const labelAbove = position.y > LABEL_FLIP_PX;
+
+        return (
+          <div key={point.id}>
+            <div
+              className={`absolute ${largeTargets ? 'w-10 h-10' : 'w-6 h-6'} border-2 border-sampling-point rounded-full transform -translate-x-1/2 -translate-y-1/2 cursor-move touch-none transition-all duration-200 ${
+                draggingIds.includes(point.id) ? 'scale-125 animate-pulse' : 'hover:scale-110'
+              }`}
+              style={{
+                left: position.x,
+                top: position.y,
+                backgroundColor: color.hex,
+                pointerEvents: 'all'
+              }}
+              onPointerDown={dragHandlers.onPointerDown(point.id)}
+              onPointerMove={dragHandlers.onPointerMove}
+              onPointerUp={dragHandlers.onPointerUp}
+              onPointerCancel={dragHandlers.onPointerUp}
+            >
+              <div className="w-full h-full rounded-full border-2 border-background shadow-lg" />
+            </div>
+
+            <div
+              className="absolute bg-glass-overlay/90 backdrop-blur-sm text-foreground px-3 py-1 rounded-lg text-sm font-medium pointer-events-none shadow-lg whitespace-nowrap"
+              style={{
+                left: position.x,
+                top: position.y,
+                transform: labelAbove
+                  ? `translate(-50%, calc(-100% - ${largeTargets ? 26 : 18}px))`
+                  : `translate(-50%, ${largeTargets ? 26 : 18}px)`
+              }}
+            >
+              {labels[point.id] ?? point.name}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
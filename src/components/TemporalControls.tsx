@@ -0,0 +1,94 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MAX_SMOOTHING_WINDOW, SmoothingMode, TemporalSettings } from '@/lib/sampling';
+
+interface TemporalControlsProps {
+  settings: TemporalSettings;
+  onChange: (settings: TemporalSettings) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const TemporalControls = ({ settings, onChange }: TemporalControlsProps) => {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Smoothing</Label>
+        <Select
+          value={settings.mode}
+          onValueChange={(value) => onChange({ ...settings, mode: value as SmoothingMode })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Off</SelectItem>
+            <SelectItem value="ema">Moving average (EMA)</SelectItem>
+            <SelectItem value="window">Rolling window</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        {settings.mode === 'ema' && (
+          <>
+            <Label className="text-xs text-muted-foreground">Alpha</Label>
+            <Input
+              type="number"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={settings.alpha}
+              onChange={(e) => onChange({ ...settings, alpha: clamp(Number(e.target.value) || 0.05, 0.05, 1) })}
+              className="h-8 text-xs"
+            />
+          </>
+        )}
+        {settings.mode === 'window' && (
+          <>
+            <Label className="text-xs text-muted-foreground">Frames</Label>
+            <Input
+              type="number"
+              min={2}
+              max={MAX_SMOOTHING_WINDOW}
+              value={settings.windowSize}
+              onChange={(e) => onChange({
+                ...settings,
+                windowSize: clamp(Math.floor(Number(e.target.value) || 2), 2, MAX_SMOOTHING_WINDOW),
+              })}
+              className="h-8 text-xs"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Stable within ±</Label>
+        <Input
+          type="number"
+          min={0}
+          max={255}
+          value={settings.stableDelta}
+          onChange={(e) => onChange({ ...settings, stableDelta: clamp(Number(e.target.value) || 0, 0, 255) })}
+          className="h-8 text-xs"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">For (seconds)</Label>
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          value={settings.stableDurationMs / 1000}
+          onChange={(e) => onChange({
+            ...settings,
+            stableDurationMs: Math.max(0, Number(e.target.value) || 0) * 1000,
+          })}
+          className="h-8 text-xs"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { SlidersHorizontal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTrackControls } from '@/hooks/use-track-controls';
+import { MODE_CONTROLS, RANGE_CONTROLS, RangeControlKey, TrackControlValues } from '@/lib/track-controls';
+
+interface TrackControlsPanelProps {
+  track: MediaStreamTrack | null;
+}
+
+export const TrackControlsPanel = ({ track }: TrackControlsPanelProps) => {
+  const { capabilities, values, locked, supported, apply, setLockAll } = useTrackControls(track);
+  const { toast } = useToast();
+  // Slider positions while dragging; the camera is only updated when the drag ends
+  const [drafts, setDrafts] = useState<Partial<Record<RangeControlKey, number>>>({});
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to apply camera setting:', error);
+      toast({
+        title: "Camera Setting Rejected",
+        description: "The camera did not accept that setting.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const update = (changes: TrackControlValues) => run(() => apply(changes));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="lg" disabled={!track} aria-label="Camera settings">
+          <SlidersHorizontal className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">
+            This camera does not expose manual exposure, white balance or focus controls.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="lock-all">Lock all</Label>
+                <p className="text-xs text-muted-foreground">Freeze the current auto values</p>
+              </div>
+              <Switch id="lock-all" checked={locked} onCheckedChange={(checked) => run(() => setLockAll(checked))} />
+            </div>
+
+            <Separator />
+
+            {MODE_CONTROLS.filter(control => capabilities[control.key]?.length).map(control => (
+              <div key={control.key} className="flex items-center justify-between gap-2">
+                <Label className="text-sm">{control.label}</Label>
+                <Select
+                  value={values[control.key]}
+                  onValueChange={(mode) => update({ [control.key]: mode })}
+                  disabled={locked}
+                >
+                  <SelectTrigger className="h-8 w-36 text-xs capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {capabilities[control.key].map(mode => (
+                      <SelectItem key={mode} value={mode} className="capitalize">
+                        {mode.replace('-', ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {RANGE_CONTROLS.filter(control => capabilities[control.key]).map(control => {
+              const range = capabilities[control.key];
+              const value = drafts[control.key] ?? values[control.key] ?? range.min;
+              return (
+                <div key={control.key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">{control.label}</Label>
+                    <span className="text-xs font-mono text-muted-foreground">{Number(value.toFixed(2))}</span>
+                  </div>
+                  <Slider
+                    min={range.min}
+                    max={range.max}
+                    step={range.step || (range.max - range.min) / 100}
+                    value={[value]}
+                    disabled={locked}
+                    onValueChange={([next]) => setDrafts(prev => ({ ...prev, [control.key]: next }))}
+                    onValueCommit={([next]) => {
+                      update({
+                        [control.key]: next,
+                        // Manual values only stick once the matching auto mode is off
+                        ...(control.requiresManual && capabilities[control.requiresManual]?.includes('manual')
+                          ? { [control.requiresManual]: 'manual' }
+                          : {}),
+                      }).finally(() => setDrafts(({ [control.key]: _, ...rest }) => rest));
+                    }}
+                  />
+                </div>
+              );
+            })}
+
+            {capabilities.torch && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="torch">Torch</Label>
+                <Switch id="torch" checked={!!values.torch} onCheckedChange={(torch) => update({ torch })} />
+              </div>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
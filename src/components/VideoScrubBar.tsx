@@ -0,0 +1,59 @@
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, StepBack, StepForward } from 'lucide-react';
+
+interface VideoScrubBarProps {
+  playing: boolean;
+  currentTime: number;
+  duration: number;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+};
+
+export const VideoScrubBar = ({
+  playing,
+  currentTime,
+  duration,
+  onTogglePlay,
+  onSeek,
+  onStep,
+}: VideoScrubBarProps) => {
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="ghost" size="sm" className="h-9 w-9 p-0" onClick={() => onStep(-1)} aria-label="Previous frame">
+        <StepBack className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-9 w-9 p-0"
+        onClick={onTogglePlay}
+        aria-label={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+      <Button variant="ghost" size="sm" className="h-9 w-9 p-0" onClick={() => onStep(1)} aria-label="Next frame">
+        <StepForward className="w-4 h-4" />
+      </Button>
+      <Slider
+        value={[currentTime]}
+        min={0}
+        max={duration || 1}
+        step={0.01}
+        onValueChange={([time]) => onSeek(time)}
+        disabled={!duration}
+        className="flex-1"
+        aria-label="Video position"
+      />
+      <span className="w-32 text-right text-xs font-mono text-muted-foreground">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button';
+import { FlipHorizontal, Maximize, Minimize, RotateCw } from 'lucide-react';
+import { Rotation, ViewOptions } from '@/lib/view-transform';
+
+interface ViewControlsProps {
+  options: ViewOptions;
+  onChange: (options: ViewOptions) => void;
+}
+
+export const ViewControls = ({ options, onChange }: ViewControlsProps) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...options, fit: options.fit === 'contain' ? 'cover' : 'contain' })}
+      >
+        {options.fit === 'contain' ? (
+          <>
+            <Maximize className="w-4 h-4 mr-2" />
+            Fill Frame
+          </>
+        ) : (
+          <>
+            <Minimize className="w-4 h-4 mr-2" />
+            Fit Frame
+          </>
+        )}
+      </Button>
+      <Button
+        variant={options.mirrored ? 'secondary' : 'outline'}
+        size="sm"
+        onClick={() => onChange({ ...options, mirrored: !options.mirrored })}
+        aria-pressed={options.mirrored}
+      >
+        <FlipHorizontal className="w-4 h-4 mr-2" />
+        Mirror
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...options, rotation: ((options.rotation + 90) % 360) as Rotation })}
+      >
+        <RotateCw className="w-4 h-4 mr-2" />
+        Rotate {options.rotation}°
+      </Button>
+    </div>
+  );
+};
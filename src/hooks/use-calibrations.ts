@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+import {
+  Calibration,
+  CalibrationPatch,
+  computeCalibrationMatrix,
+  loadActiveCalibrationId,
+  loadCalibrations,
+  saveActiveCalibrationId,
+  saveCalibrations,
+} from '@/lib/calibration';
+
+export function useCalibrations() {
+  const [calibrations, setCalibrations] = useState<Calibration[]>(loadCalibrations);
+  const [activeId, setActiveIdState] = useState<string | null>(loadActiveCalibrationId);
+
+  const setActiveId = useCallback((id: string | null) => {
+    setActiveIdState(id);
+    saveActiveCalibrationId(id);
+  }, []);
+
+  // Saving under an existing name replaces that calibration
+  const saveCalibration = useCallback((name: string, patches: CalibrationPatch[]) => {
+    const calibration: Calibration = {
+      id: `calibration-${Date.now().toString(36)}`,
+      name,
+      matrix: computeCalibrationMatrix(patches),
+      patchCount: patches.length,
+      createdAt: Date.now(),
+    };
+
+    setCalibrations(prev => {
+      const next = [...prev.filter(existing => existing.name !== name), calibration];
+      saveCalibrations(next);
+      return next;
+    });
+    setActiveId(calibration.id);
+    return calibration;
+  }, [setActiveId]);
+
+  const removeCalibration = useCallback((id: string) => {
+    setCalibrations(prev => {
+      const next = prev.filter(calibration => calibration.id !== id);
+      saveCalibrations(next);
+      return next;
+    });
+    setActiveIdState(prev => {
+      if (prev !== id) return prev;
+      saveActiveCalibrationId(null);
+      return null;
+    });
+  }, []);
+
+  return {
+    calibrations,
+    activeCalibration: calibrations.find(calibration => calibration.id === activeId) ?? null,
+    setActiveId,
+    saveCalibration,
+    removeCalibration,
+  };
+}
@@ -0,0 +1,141 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  buildVideoConstraints,
+  CameraSettings,
+  loadCameraSettings,
+  saveCameraSettings,
+} from '@/lib/camera';
+
+interface UseCameraOptions {
+  // Called when the selected camera is unplugged or no longer available
+  onDeviceLost: (label: string) => void;
+}
+
+const isMissingDeviceError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+
+/**
+ * Owns the getUserMedia stream feeding `videoRef`: device enumeration,
+ * remembered settings, and restarting the stream when settings change.
+ */
+export function useCamera(videoRef: RefObject<HTMLVideoElement>, { onDeviceLost }: UseCameraOptions) {
+  const streamRef = useRef<MediaStream | null>(null);
+  const [isActive, setIsActive] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [settings, setSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onDeviceLostRef = useRef(onDeviceLost);
+  onDeviceLostRef.current = onDeviceLost;
+
+  const refreshDevices = useCallback(async () => {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter(device => device.kind === 'videoinput'));
+  }, []);
+
+  const stopStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    setTrack(null);
+  }, []);
+
+  const applySettings = useCallback((next: CameraSettings) => {
+    setSettings(next);
+    saveCameraSettings(next);
+  }, []);
+
+  const start = useCallback(async (overrides: Partial<CameraSettings> = {}) => {
+    let next = { ...settingsRef.current, ...overrides };
+
+    // Some phones cannot open two cameras at once, so release the old one first
+    stopStream();
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(next) });
+    } catch (error) {
+      if (!next.deviceId || !isMissingDeviceError(error)) {
+        setIsActive(false);
+        throw error;
+      }
+      // The remembered camera is gone; fall back to the facing-mode default
+      onDeviceLostRef.current('The selected camera');
+      next = { ...next, deviceId: null };
+      stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(next) });
+    }
+
+    streamRef.current = stream;
+    const [videoTrack] = stream.getVideoTracks();
+    videoTrack.addEventListener('ended', () => {
+      if (streamRef.current !== stream) return;
+      stopStream();
+      setIsActive(false);
+      onDeviceLostRef.current(videoTrack.label || 'The camera');
+    });
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play();
+    }
+
+    applySettings(next);
+    setActiveDeviceId(videoTrack.getSettings().deviceId ?? null);
+    setTrack(videoTrack);
+    setIsActive(true);
+
+    // Labels are only exposed once permission has been granted
+    await refreshDevices();
+  }, [videoRef, stopStream, applySettings, refreshDevices]);
+
+  const stop = useCallback(() => {
+    stopStream();
+    setIsActive(false);
+  }, [stopStream]);
+
+  // Restart the live stream with the new settings; the sampling points live
+  // outside this hook so they carry over untouched
+  const updateSettings = useCallback(async (changes: Partial<CameraSettings>) => {
+    if (streamRef.current) {
+      await start(changes);
+    } else {
+      applySettings({ ...settingsRef.current, ...changes });
+    }
+  }, [start, applySettings]);
+
+  const flip = useCallback(() => {
+    return updateSettings({
+      deviceId: null,
+      facingMode: settingsRef.current.facingMode === 'environment' ? 'user' : 'environment',
+    });
+  }, [updateSettings]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    const handleDeviceChange = () => {
+      refreshDevices().catch(error => console.error('Failed to list cameras:', error));
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    handleDeviceChange();
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refreshDevices]);
+
+  useEffect(() => stopStream, [stopStream]);
+
+  return {
+    isActive,
+    devices,
+    settings,
+    activeDeviceId,
+    track,
+    start,
+    stop,
+    updateSettings,
+    flip,
+  };
+}
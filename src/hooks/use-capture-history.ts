@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Capture } from '@/lib/capture-history';
+import { clearRecords, deleteRecord, getAllRecords, putRecord } from '@/lib/database';
+
+const newestFirst = (a: Capture, b: Capture) => b.timestamp - a.timestamp;
+
+/** Captures persisted in IndexedDB, newest first. */
+export function useCaptureHistory() {
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllRecords<Capture>('captures')
+      .then(stored => setCaptures(stored.sort(newestFirst)))
+      .catch(error => {
+        console.error('Failed to load capture history:', error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      });
+  }, []);
+
+  const addCapture = useCallback(async (capture: Omit<Capture, 'id'>) => {
+    const created: Capture = { ...capture, id: `capture-${capture.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 6)}` };
+    await putRecord('captures', created);
+    setCaptures(prev => [created, ...prev]);
+    return created;
+  }, []);
+
+  const removeCapture = useCallback(async (id: string) => {
+    await deleteRecord('captures', id);
+    setCaptures(prev => prev.filter(capture => capture.id !== id));
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    await clearRecords('captures');
+    setCaptures([]);
+  }, []);
+
+  return { captures, loadError, addCapture, removeCapture, clearHistory };
+}
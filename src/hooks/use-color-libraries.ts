@@ -0,0 +1,63 @@
+import { useCallback, useState } from 'react';
+import {
+  ColorLibrary,
+  LibraryColor,
+  loadColorLibraries,
+  saveColorLibraries,
+  StoredLibraries,
+} from '@/lib/color-library';
+
+export function useColorLibraries() {
+  const [stored, setStored] = useState(loadColorLibraries);
+
+  const persist = useCallback((change: (prev: StoredLibraries) => StoredLibraries) => {
+    setStored(prev => {
+      const next = change(prev);
+      saveColorLibraries(next);
+      return next;
+    });
+  }, []);
+
+  // Importing under an existing name replaces that library
+  const importLibrary = useCallback((name: string, colors: LibraryColor[]) => {
+    const library: ColorLibrary = {
+      id: `library-${Date.now().toString(36)}`,
+      name,
+      colors,
+      createdAt: Date.now(),
+    };
+    persist(prev => ({
+      ...prev,
+      libraries: [...prev.libraries.filter(existing => existing.name !== name), library],
+      activeId: library.id,
+    }));
+    return library;
+  }, [persist]);
+
+  const removeLibrary = useCallback((id: string) => {
+    persist(prev => ({
+      ...prev,
+      libraries: prev.libraries.filter(library => library.id !== id),
+      activeId: prev.activeId === id ? null : prev.activeId,
+    }));
+  }, [persist]);
+
+  const setActiveLibrary = useCallback((id: string | null) => {
+    persist(prev => ({ ...prev, activeId: id }));
+  }, [persist]);
+
+  const setMatchSettings = useCallback((changes: Partial<Pick<StoredLibraries, 'matchCount' | 'tolerance'>>) => {
+    persist(prev => ({ ...prev, ...changes }));
+  }, [persist]);
+
+  return {
+    libraries: stored.libraries,
+    activeLibrary: stored.libraries.find(library => library.id === stored.activeId) ?? null,
+    matchCount: stored.matchCount,
+    tolerance: stored.tolerance,
+    importLibrary,
+    removeLibrary,
+    setActiveLibrary,
+    setMatchSettings,
+  };
+}
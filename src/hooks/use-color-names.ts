@@ -0,0 +1,57 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  BUILT_IN_DICTIONARIES,
+  ColorNameDictionary,
+  ColorNameEntry,
+  createNameIndex,
+  findNearestName,
+  loadColorNameDictionaries,
+  saveColorNameDictionaries,
+} from '@/lib/color-names';
+import { RGB } from '@/lib/sampling';
+
+type StoredDictionaries = ReturnType<typeof loadColorNameDictionaries>;
+
+export function useColorNames() {
+  const [stored, setStored] = useState(loadColorNameDictionaries);
+
+  const persist = useCallback((change: (prev: StoredDictionaries) => StoredDictionaries) => {
+    setStored(prev => {
+      const next = change(prev);
+      saveColorNameDictionaries(next);
+      return next;
+    });
+  }, []);
+
+  const dictionaries = useMemo(() => [...BUILT_IN_DICTIONARIES, ...stored.custom], [stored.custom]);
+  const activeDictionary = dictionaries.find(dictionary => dictionary.id === stored.activeId) ?? null;
+  const index = useMemo(() => (activeDictionary ? createNameIndex(activeDictionary) : []), [activeDictionary]);
+
+  const setActiveDictionary = useCallback((id: string | null) => {
+    persist(prev => ({ ...prev, activeId: id }));
+  }, [persist]);
+
+  const addDictionary = useCallback((label: string, entries: ColorNameEntry[]) => {
+    const created: ColorNameDictionary = { id: `names-${Date.now().toString(36)}`, label, entries };
+    persist(prev => ({ custom: [...prev.custom, created], activeId: created.id }));
+    return created;
+  }, [persist]);
+
+  const removeDictionary = useCallback((id: string) => {
+    persist(prev => ({
+      custom: prev.custom.filter(dictionary => dictionary.id !== id),
+      activeId: prev.activeId === id ? null : prev.activeId,
+    }));
+  }, [persist]);
+
+  const findName = useCallback((rgb: RGB) => findNearestName(index, rgb), [index]);
+
+  return {
+    dictionaries,
+    activeDictionary,
+    setActiveDictionary,
+    addDictionary,
+    removeDictionary,
+    findName,
+  };
+}
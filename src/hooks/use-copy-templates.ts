@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import {
+  BUILT_IN_TEMPLATES,
+  CopyTemplate,
+  DEFAULT_TEMPLATE_ID,
+  loadCopyTemplates,
+  saveCopyTemplates,
+} from '@/lib/copy-templates';
+
+type StoredTemplates = ReturnType<typeof loadCopyTemplates>;
+
+export function useCopyTemplates() {
+  const [stored, setStored] = useState(loadCopyTemplates);
+
+  const persist = useCallback((change: (prev: StoredTemplates) => StoredTemplates) => {
+    setStored(prev => {
+      const next = change(prev);
+      saveCopyTemplates(next);
+      return next;
+    });
+  }, []);
+
+  const templates = [...BUILT_IN_TEMPLATES, ...stored.custom];
+  const defaultTemplate =
+    templates.find(template => template.id === stored.defaultId) ??
+    BUILT_IN_TEMPLATES.find(template => template.id === DEFAULT_TEMPLATE_ID);
+
+  const setDefaultTemplate = useCallback((id: string) => {
+    persist(prev => ({ ...prev, defaultId: id }));
+  }, [persist]);
+
+  const addTemplate = useCallback((label: string, template: string) => {
+    const created: CopyTemplate = { id: `custom-${Date.now().toString(36)}`, label, template };
+    persist(prev => ({ ...prev, custom: [...prev.custom, created] }));
+    return created;
+  }, [persist]);
+
+  const removeTemplate = useCallback((id: string) => {
+    persist(prev => ({
+      custom: prev.custom.filter(template => template.id !== id),
+      defaultId: prev.defaultId === id ? DEFAULT_TEMPLATE_ID : prev.defaultId,
+    }));
+  }, [persist]);
+
+  return {
+    templates,
+    defaultTemplate,
+    setDefaultTemplate,
+    addTemplate,
+    removeTemplate,
+  };
+}
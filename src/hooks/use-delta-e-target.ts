@@ -0,0 +1,16 @@
+import { useCallback, useState } from 'react';
+import { DeltaETarget, loadDeltaETarget, saveDeltaETarget } from '@/lib/delta-e';
+
+export function useDeltaETarget() {
+  const [target, setTarget] = useState<DeltaETarget>(loadDeltaETarget);
+
+  const updateTarget = useCallback((changes: Partial<DeltaETarget>) => {
+    setTarget(prev => {
+      const next = { ...prev, ...changes };
+      saveDeltaETarget(next);
+      return next;
+    });
+  }, []);
+
+  return { target, updateTarget };
+}
@@ -0,0 +1,62 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { decodeImage, getFileSourceKind, SourceInfo } from '@/lib/frame-source';
+
+/**
+ * Opened or pasted image and video files. Images decode into a still canvas;
+ * videos play through the same `videoRef` element the camera uses, so both
+ * feed the sampling pipeline unchanged.
+ */
+export function useFileSource(videoRef: RefObject<HTMLVideoElement>) {
+  const [source, setSource] = useState<SourceInfo | null>(null);
+  const [image, setImage] = useState<HTMLCanvasElement | null>(null);
+  const videoUrlRef = useRef<string | null>(null);
+
+  const releaseVideo = useCallback(() => {
+    if (!videoUrlRef.current) return;
+    URL.revokeObjectURL(videoUrlRef.current);
+    videoUrlRef.current = null;
+
+    const video = videoRef.current;
+    if (video) {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    }
+  }, [videoRef]);
+
+  const clear = useCallback(() => {
+    releaseVideo();
+    setImage(null);
+    setSource(null);
+  }, [releaseVideo]);
+
+  const loadImage = useCallback(async (blob: Blob, label: string) => {
+    const decoded = await decodeImage(blob);
+    releaseVideo();
+    setImage(decoded);
+    setSource({ kind: 'image', label });
+  }, [releaseVideo]);
+
+  const load = useCallback(async (file: File) => {
+    const kind = getFileSourceKind(file);
+    if (!kind) throw new Error(`${file.name} is not a supported image or video file`);
+    if (kind === 'image') return loadImage(file, file.name);
+
+    const video = videoRef.current;
+    if (!video) return;
+    releaseVideo();
+    setImage(null);
+
+    const url = URL.createObjectURL(file);
+    videoUrlRef.current = url;
+    video.srcObject = null;
+    video.src = url;
+    video.loop = true;
+    await video.play();
+    setSource({ kind, label: file.name });
+  }, [videoRef, releaseVideo, loadImage]);
+
+  useEffect(() => releaseVideo, [releaseVideo]);
+
+  return { source, image, load, loadImage, clear };
+}
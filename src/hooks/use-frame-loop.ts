@@ -0,0 +1,41 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+// Polling rate for still frames and browsers without requestVideoFrameCallback
+const FALLBACK_INTERVAL_MS = 100;
+
+const supportsVideoFrameCallback = () =>
+  typeof HTMLVideoElement !== 'undefined' && 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+/**
+ * Call `onFrame` once per new video frame while `active`, falling back to a
+ * fixed timer where requestVideoFrameCallback is unavailable. Still sources
+ * (a frozen frame) never produce new frames, so they always use the timer to
+ * let temporal smoothing settle.
+ */
+export function useFrameLoop(
+  videoRef: RefObject<HTMLVideoElement>,
+  onFrame: () => void,
+  active: boolean,
+  still = false
+) {
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!active || !video) return;
+
+    if (!still && supportsVideoFrameCallback()) {
+      let handle = 0;
+      const tick = () => {
+        onFrameRef.current();
+        handle = video.requestVideoFrameCallback(tick);
+      };
+      handle = video.requestVideoFrameCallback(tick);
+      return () => video.cancelVideoFrameCallback(handle);
+    }
+
+    const interval = setInterval(() => onFrameRef.current(), FALLBACK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [videoRef, active, still]);
+}
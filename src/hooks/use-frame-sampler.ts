@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { drawFrame, FrameSource } from '@/lib/frame-capture';
+import { createFrameSampler, FramePoint, FrameSampler } from '@/lib/frame-sampler';
+import { ColorData } from '@/lib/sampling';
+import { SamplingRequest, SamplingResponse } from '@/lib/sampling-protocol';
+
+const supportsWorkerSampling = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Sample frames in a dedicated worker, falling back to the main thread
+ * when OffscreenCanvas is missing or the worker fails. Frames that arrive
+ * while the worker is still busy are dropped rather than queued.
+ */
+export function useFrameSampler(onColors: (colors: Record<string, ColorData>) => void) {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(false);
+  const frameIdRef = useRef(0);
+  const fallbackRef = useRef<FrameSampler | null>(null);
+  const onColorsRef = useRef(onColors);
+  onColorsRef.current = onColors;
+
+  useEffect(() => {
+    if (!supportsWorkerSampling()) return;
+
+    const worker = new Worker(new URL('../workers/sampling.worker.ts', import.meta.url), { type: 'module' });
+    const disableWorker = () => {
+      worker.terminate();
+      workerRef.current = null;
+      pendingRef.current = false;
+    };
+
+    worker.onmessage = (event: MessageEvent<SamplingResponse>) => {
+      pendingRef.current = false;
+      const response = event.data;
+      if (response.type === 'result') {
+        onColorsRef.current(response.colors);
+      } else {
+        console.error('Sampling worker error:', response.message);
+        disableWorker();
+      }
+    };
+    worker.onerror = (error) => {
+      console.error('Sampling worker failed, using main thread:', error);
+      disableWorker();
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return useCallback((source: FrameSource, canvas: HTMLCanvasElement, points: FramePoint[]) => {
+    const now = performance.now();
+    const worker = workerRef.current;
+
+    if (worker) {
+      if (pendingRef.current) return;
+      pendingRef.current = true;
+
+      createImageBitmap(source)
+        .then(frame => {
+          frameIdRef.current += 1;
+          const request: SamplingRequest = { type: 'sample', frameId: frameIdRef.current, frame, points, timestamp: now };
+          worker.postMessage(request, [frame]);
+        })
+        .catch(error => {
+          pendingRef.current = false;
+          console.error('Failed to capture frame:', error);
+        });
+      return;
+    }
+
+    const ctx = drawFrame(canvas, source);
+    if (!ctx) return;
+
+    fallbackRef.current ??= createFrameSampler();
+    onColorsRef.current(fallbackRef.current.sample(ctx, points, now));
+  }, []);
+}
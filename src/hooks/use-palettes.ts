@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { deleteRecord, getAllRecords, putRecord } from '@/lib/database';
+import { moveItem, Palette, Swatch } from '@/lib/palettes';
+
+const oldestFirst = (a: Palette, b: Palette) => a.createdAt - b.createdAt;
+
+const storePalette = (palette: Palette) => {
+  putRecord('palettes', palette).catch(error => console.error('Failed to save palette:', error));
+};
+
+/** Palettes persisted in IndexedDB. Edits apply immediately and are written in the background. */
+export function usePalettes() {
+  const [palettes, setPalettes] = useState<Palette[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Latest list, so several edits in one tick each build on the previous one
+  const palettesRef = useRef(palettes);
+
+  const commit = useCallback((next: Palette[]) => {
+    palettesRef.current = next;
+    setPalettes(next);
+  }, []);
+
+  useEffect(() => {
+    getAllRecords<Palette>('palettes')
+      .then(stored => commit(stored.sort(oldestFirst)))
+      .catch(error => {
+        console.error('Failed to load palettes:', error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setLoaded(true));
+  }, [commit]);
+
+  const addPalette = useCallback((palette: Palette) => {
+    storePalette(palette);
+    commit([...palettesRef.current, palette]);
+    return palette;
+  }, [commit]);
+
+  const updatePalette = useCallback((id: string, change: (palette: Palette) => Palette) => {
+    const current = palettesRef.current.find(palette => palette.id === id);
+    if (!current) return;
+    const next = { ...change(current), updatedAt: Date.now() };
+    storePalette(next);
+    commit(palettesRef.current.map(palette => (palette.id === id ? next : palette)));
+  }, [commit]);
+
+  const removePalette = useCallback((id: string) => {
+    deleteRecord('palettes', id).catch(error => console.error('Failed to delete palette:', error));
+    commit(palettesRef.current.filter(palette => palette.id !== id));
+  }, [commit]);
+
+  const addSwatch = useCallback((paletteId: string, swatch: Swatch, index?: number) => {
+    updatePalette(paletteId, palette => {
+      const swatches = [...palette.swatches];
+      swatches.splice(index ?? swatches.length, 0, swatch);
+      return { ...palette, swatches };
+    });
+  }, [updatePalette]);
+
+  const updateSwatch = useCallback((paletteId: string, swatchId: string, changes: Partial<Omit<Swatch, 'id'>>) => {
+    updatePalette(paletteId, palette => ({
+      ...palette,
+      swatches: palette.swatches.map(swatch => (swatch.id === swatchId ? { ...swatch, ...changes } : swatch)),
+    }));
+  }, [updatePalette]);
+
+  const removeSwatch = useCallback((paletteId: string, swatchId: string) => {
+    updatePalette(paletteId, palette => ({
+      ...palette,
+      swatches: palette.swatches.filter(swatch => swatch.id !== swatchId),
+    }));
+  }, [updatePalette]);
+
+  const moveSwatch = useCallback((paletteId: string, from: number, to: number) => {
+    updatePalette(paletteId, palette => ({ ...palette, swatches: moveItem(palette.swatches, from, to) }));
+  }, [updatePalette]);
+
+  return {
+    palettes,
+    loaded,
+    loadError,
+    addPalette,
+    updatePalette,
+    removePalette,
+    addSwatch,
+    updateSwatch,
+    removeSwatch,
+    moveSwatch,
+  };
+}
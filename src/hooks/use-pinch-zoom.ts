@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clampZoom, IDENTITY_ZOOM, MAX_ZOOM, Point2D, ZoomState } from '@/lib/view-transform';
+
+interface Gesture {
+  start: ZoomState;
+  center: Point2D; // pointer midpoint at gesture start, relative to container center
+  distance: number;
+}
+
+const midpoint = (a: Point2D, b: Point2D): Point2D => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Zoom factor per pixel of wheel delta
+const WHEEL_ZOOM_RATE = 0.002;
+
+/**
+ * Pinch-to-zoom, wheel zoom and one-finger pan for the preview container. Handlers go on
+ * the container; sampling markers stop propagation so dragging a point never
+ * starts a pan. Wheel zoom only applies while `wheelEnabled` is set.
+ */
+export function usePinchZoom(containerRef: React.RefObject<HTMLElement>, wheelEnabled = true) {
+  const [zoom, setZoom] = useState<ZoomState>(IDENTITY_ZOOM);
+  const wheelEnabledRef = useRef(wheelEnabled);
+  wheelEnabledRef.current = wheelEnabled;
+  const pointersRef = useRef(new Map<number, Point2D>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  // Pointer position relative to the container center
+  const toLocal = useCallback((e: React.PointerEvent): Point2D | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const rect = container.getBoundingClientRect();
+    return { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+  }, [containerRef]);
+
+  const beginGesture = useCallback(() => {
+    const pointers = [...pointersRef.current.values()];
+    if (!pointers.length) {
+      gestureRef.current = null;
+      return;
+    }
+    gestureRef.current = {
+      start: zoomRef.current,
+      center: pointers.length > 1 ? midpoint(pointers[0], pointers[1]) : pointers[0],
+      distance: pointers.length > 1 ? distance(pointers[0], pointers[1]) : 0,
+    };
+  }, []);
+
+  const onPointerDown = useCallback((e: React.PointerEvent) => {
+    const local = toLocal(e);
+    if (!local) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, local);
+    beginGesture();
+  }, [toLocal, beginGesture]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent) => {
+    const gesture = gestureRef.current;
+    const container = containerRef.current;
+    const local = toLocal(e);
+    if (!gesture || !container || !local || !pointersRef.current.has(e.pointerId)) return;
+
+    pointersRef.current.set(e.pointerId, local);
+    const pointers = [...pointersRef.current.values()];
+    const center = pointers.length > 1 ? midpoint(pointers[0], pointers[1]) : pointers[0];
+    const scale = pointers.length > 1 && gesture.distance
+      ? gesture.start.scale * (distance(pointers[0], pointers[1]) / gesture.distance)
+      : gesture.start.scale;
+
+    // Keep the content under the gesture center fixed while scaling
+    const ratio = scale / gesture.start.scale;
+    setZoom(clampZoom({
+      scale,
+      x: center.x - (gesture.center.x - gesture.start.x) * ratio,
+      y: center.y - (gesture.center.y - gesture.start.y) * ratio,
+    }, container.clientWidth, container.clientHeight));
+  }, [containerRef, toLocal]);
+
+  const onPointerUp = useCallback((e: React.PointerEvent) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    // Restart from the remaining pointers so lifting one finger doesn't jump
+    beginGesture();
+  }, [beginGesture]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Registered natively: React's wheel listeners are passive and can't stop page scroll
+    const handleWheel = (e: WheelEvent) => {
+      if (!wheelEnabledRef.current) return;
+      const prev = zoomRef.current;
+      const scale = Math.max(1, Math.min(MAX_ZOOM, prev.scale * Math.exp(-e.deltaY * WHEEL_ZOOM_RATE)));
+      // At a zoom limit the wheel scrolls the page as usual
+      if (scale === prev.scale) return;
+
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const center = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+      // Keep the content under the cursor fixed
+      const ratio = scale / prev.scale;
+      const next = clampZoom({
+        scale,
+        x: center.x - (center.x - prev.x) * ratio,
+        y: center.y - (center.y - prev.y) * ratio,
+      }, container.clientWidth, container.clientHeight);
+      // Events can arrive faster than renders; chain them from the latest value
+      zoomRef.current = next;
+      setZoom(next);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [containerRef]);
+
+  const resetZoom = useCallback(() => setZoom(IDENTITY_ZOOM), []);
+
+  // Zoom about the container center, keeping the current pan proportional
+  const zoomTo = useCallback((scale: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    setZoom(prev => {
+      const ratio = scale / prev.scale;
+      return clampZoom({ scale, x: prev.x * ratio, y: prev.y * ratio }, container.clientWidth, container.clientHeight);
+    });
+  }, [containerRef]);
+
+  return {
+    zoom,
+    resetZoom,
+    zoomTo,
+    zoomHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+    },
+  };
+}
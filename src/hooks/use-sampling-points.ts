@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react';
+import { ColorFormatId } from '@/lib/color-formats';
+import {
+  createSamplingPoint,
+  DEFAULT_SAMPLING_POINTS,
+  MAX_SAMPLING_POINTS,
+  SampleRegion,
+  SamplingPoint,
+  TemporalSettings,
+} from '@/lib/sampling';
+
+export function useSamplingPoints(initialPoints: SamplingPoint[] = DEFAULT_SAMPLING_POINTS) {
+  const [points, setPoints] = useState<SamplingPoint[]>(initialPoints);
+
+  const addPoint = useCallback(() => {
+    setPoints(prev => {
+      if (prev.length >= MAX_SAMPLING_POINTS) return prev;
+      return [...prev, createSamplingPoint({ name: `Sample ${prev.length + 1}`, x: 50, y: 50 })];
+    });
+  }, []);
+
+  const removePoint = useCallback((id: string) => {
+    setPoints(prev => prev.filter(point => point.id !== id));
+  }, []);
+
+  const renamePoint = useCallback((id: string, name: string) => {
+    setPoints(prev => prev.map(point => (point.id === id ? { ...point, name } : point)));
+  }, []);
+
+  const movePoint = useCallback((id: string, x: number, y: number) => {
+    setPoints(prev => prev.map(point => (point.id === id ? { ...point, x, y } : point)));
+  }, []);
+
+  const setPointRegion = useCallback((id: string, region: SampleRegion) => {
+    setPoints(prev => prev.map(point => (point.id === id ? { ...point, region } : point)));
+  }, []);
+
+  const setPointTemporal = useCallback((id: string, temporal: TemporalSettings) => {
+    setPoints(prev => prev.map(point => (point.id === id ? { ...point, temporal } : point)));
+  }, []);
+
+  const setPointFormats = useCallback((id: string, formats: ColorFormatId[]) => {
+    setPoints(prev => prev.map(point => (point.id === id ? { ...point, formats } : point)));
+  }, []);
+
+  // Shift a point up (-1) or down (+1) in the list order
+  const reorderPoint = useCallback((id: string, offset: number) => {
+    setPoints(prev => {
+      const index = prev.findIndex(point => point.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      const [point] = next.splice(index, 1);
+      next.splice(target, 0, point);
+      return next;
+    });
+  }, []);
+
+  return {
+    points,
+    addPoint,
+    removePoint,
+    renamePoint,
+    movePoint,
+    reorderPoint,
+    setPointRegion,
+    setPointTemporal,
+    setPointFormats,
+    canAddPoint: points.length < MAX_SAMPLING_POINTS,
+  };
+}
@@ -0,0 +1,63 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { buildScreenConstraints } from '@/lib/frame-source';
+
+interface UseScreenCaptureOptions {
+  // Called when the user stops sharing from the browser's own controls
+  onEnded: () => void;
+}
+
+/** Owns the getDisplayMedia stream feeding `videoRef`. */
+export function useScreenCapture(videoRef: RefObject<HTMLVideoElement>, { onEnded }: UseScreenCaptureOptions) {
+  const streamRef = useRef<MediaStream | null>(null);
+  const [isActive, setIsActive] = useState(false);
+  const [label, setLabel] = useState('');
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  const stopStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+  }, []);
+
+  const start = useCallback(async (pixelExact: boolean) => {
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: buildScreenConstraints(pixelExact),
+      audio: false,
+    });
+    stopStream();
+    streamRef.current = stream;
+
+    const [videoTrack] = stream.getVideoTracks();
+    videoTrack.addEventListener('ended', () => {
+      if (streamRef.current !== stream) return;
+      stopStream();
+      setIsActive(false);
+      onEndedRef.current();
+    });
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play();
+    }
+
+    setLabel(videoTrack.label || 'Shared screen');
+    setIsActive(true);
+  }, [videoRef, stopStream]);
+
+  const stop = useCallback(() => {
+    stopStream();
+    setIsActive(false);
+  }, [stopStream]);
+
+  // Switch resolution on the live share without asking the user to pick again
+  const setPixelExact = useCallback(async (pixelExact: boolean) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (track) await track.applyConstraints(buildScreenConstraints(pixelExact));
+  }, []);
+
+  useEffect(() => stopStream, [stopStream]);
+
+  return { isActive, label, start, stop, setPixelExact };
+}
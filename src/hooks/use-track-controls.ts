@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  buildLockConstraints,
+  buildUnlockConstraints,
+  getTrackCapabilities,
+  getTrackValues,
+  hasAnyControl,
+  TrackCapabilities,
+  TrackControlValues,
+} from '@/lib/track-controls';
+
+/**
+ * Manual camera controls for the live video track, limited to what the
+ * device reports through getCapabilities().
+ */
+export function useTrackControls(track: MediaStreamTrack | null) {
+  const [capabilities, setCapabilities] = useState<TrackCapabilities>({});
+  const [values, setValues] = useState<TrackControlValues>({});
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    setLocked(false);
+    if (!track) {
+      setCapabilities({});
+      setValues({});
+      return;
+    }
+    setCapabilities(getTrackCapabilities(track));
+    setValues(getTrackValues(track));
+  }, [track]);
+
+  const apply = useCallback(async (changes: TrackControlValues) => {
+    if (!track) return;
+
+    // applyConstraints replaces the whole set, so keep resolution/device and
+    // earlier manual tweaks alongside the new values
+    const current = track.getConstraints();
+    const advanced = { ...(current.advanced?.[0] ?? {}), ...changes } as MediaTrackConstraintSet;
+    await track.applyConstraints({ ...current, advanced: [advanced] });
+    setValues(getTrackValues(track));
+  }, [track]);
+
+  const setLockAll = useCallback(async (lock: boolean) => {
+    if (!track) return;
+    await apply(lock ? buildLockConstraints(capabilities, getTrackValues(track)) : buildUnlockConstraints(capabilities));
+    setLocked(lock);
+  }, [track, capabilities, apply]);
+
+  return {
+    capabilities,
+    values,
+    locked,
+    supported: hasAnyControl(capabilities),
+    apply,
+    setLockAll,
+  };
+}
@@ -0,0 +1,51 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { FRAME_STEP_SECONDS } from '@/lib/frame-source';
+
+/** Playback state and transport controls for a video file in `videoRef`. */
+export function useVideoPlayback(videoRef: RefObject<HTMLVideoElement>, enabled: boolean) {
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !video) return;
+
+    const sync = () => {
+      setPlaying(!video.paused);
+      setCurrentTime(video.currentTime);
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+    const events = ['play', 'pause', 'timeupdate', 'seeked', 'durationchange', 'loadedmetadata'];
+    events.forEach(event => video.addEventListener(event, sync));
+    sync();
+    return () => events.forEach(event => video.removeEventListener(event, sync));
+  }, [videoRef, enabled]);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(error => console.error('Failed to play video:', error));
+    } else {
+      video.pause();
+    }
+  }, [videoRef]);
+
+  const seek = useCallback((time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.max(0, Math.min(video.duration || 0, time));
+    setCurrentTime(video.currentTime);
+  }, [videoRef]);
+
+  // Stepping pauses so the chosen frame stays on screen
+  const step = useCallback((frames: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seek(video.currentTime + frames * FRAME_STEP_SECONDS);
+  }, [videoRef, seek]);
+
+  return { playing, currentTime, duration, togglePlay, seek, step };
+}
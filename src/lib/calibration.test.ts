@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { hexToRgb, linearToRgb, rgbToLinear } from '@/lib/color-conversions';
+import {
+  applyCalibration,
+  Calibration,
+  CalibrationPatch,
+  computeCalibrationMatrix,
+  IDENTITY_MATRIX,
+  Matrix3,
+} from '@/lib/calibration';
+import { RGB, rgbToHex } from '@/lib/sampling';
+
+// Camera response in linear sRGB: a warm cast plus some crosstalk between channels
+const CAMERA: Matrix3 = [0.9, 0.08, 0.02, 0.05, 0.85, 0.05, 0.02, 0.1, 0.8];
+
+const shoot = (reference: RGB, camera: Matrix3 = CAMERA): RGB => {
+  const [r, g, b] = rgbToLinear(reference);
+  return linearToRgb([
+    camera[0] * r + camera[1] * g + camera[2] * b,
+    camera[3] * r + camera[4] * g + camera[5] * b,
+    camera[6] * r + camera[7] * g + camera[8] * b,
+  ]);
+};
+
+const patch = (hex: string, camera?: Matrix3): CalibrationPatch => {
+  const reference = hexToRgb(hex);
+  return { sample: shoot(reference, camera), reference };
+};
+
+const correct = (matrix: Matrix3, rgb: RGB) => {
+  const calibration: Calibration = { id: 'test', name: 'Test', matrix, patchCount: 0, createdAt: 0 };
+  return applyCalibration({ hex: rgbToHex(rgb.r, rgb.g, rgb.b), rgb }, calibration).rgb;
+};
+
+const isDiagonal = (m: Matrix3) => [1, 2, 3, 5, 6, 7].every(index => m[index] === 0);
+
+const expectClose = (actual: RGB, expected: RGB, tolerance: number) => {
+  [actual.r - expected.r, actual.g - expected.g, actual.b - expected.b].forEach(delta =>
+    expect(Math.abs(delta)).toBeLessThanOrEqual(tolerance)
+  );
+};
+
+// ColorChecker Classic patches in sRGB
+const CHART = [
+  '#735244', '#c29682', '#627a9d', '#576c43', '#8580b1', '#67bdaa',
+  '#d67e2c', '#505ba6', '#c15a63', '#5e3c6c', '#9dbc40', '#e0a32e',
+  '#383d96', '#469449', '#af363c', '#e7c71f', '#bb5695', '#0885a1',
+  '#f3f3f2', '#c8c8c8', '#a0a0a0', '#7a7a79', '#555555', '#343434',
+];
+
+describe('computeCalibrationMatrix', () => {
+  it('leaves readings alone without patches', () => {
+    expect(computeCalibrationMatrix([])).toEqual(IDENTITY_MATRIX);
+  });
+
+  it('fits per-channel gains to a single card', () => {
+    // A pure channel cast, which per-channel gains can undo exactly
+    const cast: Matrix3 = [0.95, 0, 0, 0, 0.8, 0, 0, 0, 0.6];
+    const card = patch('#777777', cast);
+    const matrix = computeCalibrationMatrix([card]);
+
+    expect(isDiagonal(matrix)).toBe(true);
+    expectClose(correct(matrix, card.sample), card.reference, 1);
+    expectClose(correct(matrix, shoot(hexToRgb('#d67e2c'), cast)), hexToRgb('#d67e2c'), 2);
+  });
+
+  it('falls back to per-channel gains for neutral cards only', () => {
+    // White, light gray, mid gray and black cards under warm light, with a couple of units of sensor noise
+    const patches: CalibrationPatch[] = [
+      { sample: { r: 240, g: 225, b: 207 }, reference: hexToRgb('#f3f3f2') },
+      { sample: { r: 194, g: 188, b: 168 }, reference: hexToRgb('#c8c8c8') },
+      { sample: { r: 116, g: 108, b: 103 }, reference: hexToRgb('#777777') },
+      { sample: { r: 52, g: 48, b: 42 }, reference: hexToRgb('#343434') },
+    ];
+    const matrix = computeCalibrationMatrix(patches);
+
+    expect(isDiagonal(matrix)).toBe(true);
+    patches.forEach(({ sample, reference }) => expectClose(correct(matrix, sample), reference, 4));
+  });
+
+  it('fits a full matrix to a color chart', () => {
+    const patches = CHART.map(hex => patch(hex));
+    const matrix = computeCalibrationMatrix(patches);
+
+    expect(isDiagonal(matrix)).toBe(false);
+    // 8-bit samples of the darker patches leave a little rounding error
+    patches.forEach(({ sample, reference }) => expectClose(correct(matrix, sample), reference, 3));
+  });
+});
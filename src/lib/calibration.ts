@@ -0,0 +1,168 @@
+import { linearToRgb, rgbToLinear } from '@/lib/color-conversions';
+import { ColorData, RGB, rgbToHex } from '@/lib/sampling';
+
+// Row-major 3×3 matrix applied to linear sRGB
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+type Vector3 = [number, number, number];
+
+export interface Calibration {
+  id: string;
+  name: string;
+  matrix: Matrix3;
+  patchCount: number;
+  createdAt: number;
+}
+
+export interface CalibrationPatch {
+  sample: RGB; // raw camera reading
+  reference: RGB; // known value of the card or chart patch
+}
+
+// Reference presets for a single neutral card; 'neutral' keeps the sample's brightness
+export const NEUTRAL_REFERENCES = [
+  { id: 'neutral', label: 'Neutral (keep brightness)', hex: null },
+  { id: 'white', label: 'White card (#F3F3F2)', hex: '#f3f3f2' },
+  { id: 'gray18', label: '18% gray card (#777777)', hex: '#777777' },
+];
+
+export const IDENTITY_MATRIX: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Largest 1-norm condition number of S·Sᵀ still trusted for a full fit; charts
+// land well under 100, while neutral-only patches exceed 10⁶
+const MAX_CONDITION_NUMBER = 1e3;
+
+const STORAGE_KEY = 'pixel-picker:calibrations';
+const ACTIVE_KEY = 'pixel-picker:active-calibration';
+
+const multiply = (m: Matrix3, [r, g, b]: Vector3): Vector3 => [
+  m[0] * r + m[1] * g + m[2] * b,
+  m[3] * r + m[4] * g + m[5] * b,
+  m[6] * r + m[7] * g + m[8] * b,
+];
+
+const invert = (m: Matrix3): Matrix3 | null => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-9) return null;
+
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+};
+
+const norm1 = (m: Matrix3) =>
+  Math.max(...[0, 1, 2].map(col => Math.abs(m[col]) + Math.abs(m[3 + col]) + Math.abs(m[6 + col])));
+
+/**
+ * Gray with the same mean linear intensity as the sample, for neutral cards
+ * of unknown exact value.
+ */
+export const neutralReference = (sample: RGB): RGB => {
+  const linear = rgbToLinear(sample);
+  const mean = (linear[0] + linear[1] + linear[2]) / 3;
+  return linearToRgb([mean, mean, mean]);
+};
+
+// Per-channel gains (von Kries style), least-squares over all patches
+const computeDiagonal = (samples: Vector3[], references: Vector3[]): Matrix3 => {
+  const gain = (channel: number) => {
+    let numerator = 0;
+    let denominator = 0;
+    samples.forEach((sample, index) => {
+      numerator += sample[channel] * references[index][channel];
+      denominator += sample[channel] * sample[channel];
+    });
+    return denominator ? numerator / denominator : 1;
+  };
+
+  return [gain(0), 0, 0, 0, gain(1), 0, 0, 0, gain(2)];
+};
+
+/**
+ * Fit a correction matrix mapping raw readings onto their references in
+ * linear sRGB. One or two patches only constrain per-channel gains; three or
+ * more (a chart) fit a full 3×3 matrix by least squares, unless they lack the
+ * chromatic spread to pin it down (white, gray and black cards all lie along
+ * one axis) and the per-channel fit is used instead.
+ */
+export const computeCalibrationMatrix = (patches: CalibrationPatch[]): Matrix3 => {
+  if (!patches.length) return IDENTITY_MATRIX;
+
+  const samples = patches.map(patch => rgbToLinear(patch.sample));
+  const references = patches.map(patch => rgbToLinear(patch.reference));
+  if (patches.length < 3) return computeDiagonal(samples, references);
+
+  // M = (R·Sᵀ)(S·Sᵀ)⁻¹ with patches as columns of S and R
+  const rst = new Array(9).fill(0) as Matrix3;
+  const sst = new Array(9).fill(0) as Matrix3;
+  samples.forEach((sample, index) => {
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        rst[row * 3 + col] += references[index][row] * sample[col];
+        sst[row * 3 + col] += sample[row] * sample[col];
+      }
+    }
+  });
+
+  const inverse = invert(sst);
+  if (!inverse || norm1(sst) * norm1(inverse) > MAX_CONDITION_NUMBER) return computeDiagonal(samples, references);
+
+  const matrix = new Array(9).fill(0) as Matrix3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        matrix[row * 3 + col] += rst[row * 3 + k] * inverse[k * 3 + col];
+      }
+    }
+  }
+  return matrix;
+};
+
+export const applyCalibration = (color: ColorData, calibration: Calibration): ColorData => {
+  const rgb = linearToRgb(multiply(calibration.matrix, rgbToLinear(color.rgb)));
+  return {
+    ...color,
+    hex: rgbToHex(rgb.r, rgb.g, rgb.b),
+    rgb,
+    raw: { hex: color.hex, rgb: color.rgb },
+  };
+};
+
+export const loadCalibrations = (): Calibration[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveCalibrations = (calibrations: Calibration[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calibrations));
+  } catch (error) {
+    console.error('Failed to save calibrations:', error);
+  }
+};
+
+export const loadActiveCalibrationId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveCalibrationId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save active calibration:', error);
+  }
+};
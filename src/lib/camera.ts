@@ -0,0 +1,67 @@
+export type FacingMode = 'environment' | 'user';
+
+export interface ResolutionPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface CameraSettings {
+  deviceId: string | null; // null lets facingMode pick the camera
+  facingMode: FacingMode;
+  resolution: string; // ResolutionPreset id
+  frameRate: number;
+}
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { id: '480p', label: '640 × 480', width: 640, height: 480 },
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+  { id: '2160p', label: '3840 × 2160', width: 3840, height: 2160 },
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  facingMode: 'environment',
+  resolution: '720p',
+  frameRate: 30,
+};
+
+const STORAGE_KEY = 'pixel-picker:camera-settings';
+
+export const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => {
+  const preset = RESOLUTION_PRESETS.find(option => option.id === settings.resolution) ?? RESOLUTION_PRESETS[1];
+
+  return {
+    width: { ideal: preset.width },
+    height: { ideal: preset.height },
+    frameRate: { ideal: settings.frameRate },
+    ...(settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: settings.facingMode }),
+  };
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAMERA_SETTINGS;
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save camera settings:', error);
+  }
+};
+
+export const getDeviceLabel = (device: MediaDeviceInfo, index: number) => {
+  return device.label || `Camera ${index + 1}`;
+};
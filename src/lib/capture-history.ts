@@ -0,0 +1,97 @@
+import { toCsvField } from '@/lib/csv';
+import { FrameSource, getFrameSize } from '@/lib/frame-capture';
+import { SourceInfo } from '@/lib/frame-source';
+import { ColorData } from '@/lib/sampling';
+
+export interface Capture {
+  id: string;
+  pointName: string;
+  color: ColorData;
+  position: {
+    x: number; // percent of the source frame
+    y: number;
+    sourceX: number; // source pixels
+    sourceY: number;
+  };
+  timestamp: number;
+  source: SourceInfo;
+  thumbnail: string; // PNG data URL
+}
+
+// Source pixels around the point in the thumbnail, and its rendered size
+const THUMBNAIL_SOURCE_PX = 32;
+const THUMBNAIL_SIZE = 96;
+
+/** Pixelated crop centered on the point, drawn black beyond the frame edges. */
+export const createThumbnail = (source: FrameSource, x: number, y: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const { width, height } = getFrameSize(source);
+  const scale = THUMBNAIL_SIZE / THUMBNAIL_SOURCE_PX;
+  const half = THUMBNAIL_SOURCE_PX / 2;
+  const left = Math.max(0, x - half);
+  const top = Math.max(0, y - half);
+  const right = Math.min(width, x + half);
+  const bottom = Math.min(height, y + half);
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  if (right > left && bottom > top) {
+    ctx.drawImage(
+      source,
+      left, top, right - left, bottom - top,
+      (left - (x - half)) * scale, (top - (y - half)) * scale,
+      (right - left) * scale, (bottom - top) * scale
+    );
+  }
+
+  // Mark the sampled pixel
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(half * scale + 0.5, half * scale + 0.5, scale - 1, scale - 1);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const formatCaptureTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/** Match every word of the query against name, hex, source and date. */
+export const searchCaptures = (captures: Capture[], query: string): Capture[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return captures;
+
+  return captures.filter(capture => {
+    const haystack = [
+      capture.pointName,
+      capture.color.hex,
+      capture.source.kind,
+      capture.source.label,
+      formatCaptureTime(capture.timestamp),
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+export const capturesToCsv = (captures: Capture[]): string => {
+  const header = ['time', 'name', 'hex', 'r', 'g', 'b', 'x_percent', 'y_percent', 'x_px', 'y_px', 'source', 'source_label'];
+  const rows = captures.map(capture => [
+    new Date(capture.timestamp).toISOString(),
+    capture.pointName,
+    capture.color.hex,
+    capture.color.rgb.r,
+    capture.color.rgb.g,
+    capture.color.rgb.b,
+    capture.position.x.toFixed(2),
+    capture.position.y.toFixed(2),
+    capture.position.sourceX,
+    capture.position.sourceY,
+    capture.source.kind,
+    capture.source.label,
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n');
+};
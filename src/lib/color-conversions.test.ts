@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  displayP3ToRgb,
+  hslToRgb,
+  oklchToRgb,
+  rgbToCmyk,
+  rgbToCmykCoated,
+  rgbToDisplayP3,
+  rgbToHsl,
+  rgbToHsv,
+  rgbToHwb,
+  rgbToLab,
+  rgbToLch,
+  rgbToOklab,
+  rgbToOklch,
+  rgbToXyz,
+} from '@/lib/color-conversions';
+import { RGB } from '@/lib/sampling';
+
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+const BLACK: RGB = { r: 0, g: 0, b: 0 };
+const RED: RGB = { r: 255, g: 0, b: 0 };
+const ORANGE: RGB = { r: 214, g: 126, b: 44 }; // #d67e2c
+
+const expectChannels = (actual: object, expected: Record<string, number>, digits = 2) => {
+  Object.entries(expected).forEach(([key, value]) => expect(actual[key], key).toBeCloseTo(value, digits));
+};
+
+// Primaries, greys and a few arbitrary in-between colors
+const SAMPLES: RGB[] = [
+  WHITE,
+  RED,
+  BLACK,
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 0, b: 255 },
+  { r: 128, g: 128, b: 128 },
+  { r: 18, g: 171, b: 239 },
+  { r: 250, g: 128, b: 114 },
+  { r: 61, g: 43, b: 31 },
+  { r: 1, g: 254, b: 127 },
+];
+
+const label = ({ r, g, b }: RGB) => `rgb(${r}, ${g}, ${b})`;
+
+describe('reference values', () => {
+  it('maps white to L 100 with no chroma in Lab', () => {
+    const lab = rgbToLab(WHITE);
+    expect(lab.l).toBeCloseTo(100, 3);
+    expect(lab.a).toBeCloseTo(0, 3);
+    expect(lab.b).toBeCloseTo(0, 3);
+  });
+
+  it('matches CSS lab() for sRGB red', () => {
+    const lab = rgbToLab(RED);
+    expect(lab.l).toBeCloseTo(54.29, 2);
+    expect(lab.a).toBeCloseTo(80.8, 1);
+    expect(lab.b).toBeCloseTo(69.89, 1);
+  });
+
+  it('matches OKLab for sRGB red', () => {
+    const oklab = rgbToOklab(RED);
+    expect(oklab.l).toBeCloseTo(0.628, 3);
+    expect(oklab.a).toBeCloseTo(0.225, 3);
+    expect(oklab.b).toBeCloseTo(0.126, 3);
+  });
+
+  it('matches color(display-p3) for sRGB red', () => {
+    const [r, g, b] = rgbToDisplayP3(RED);
+    expect(r).toBeCloseTo(0.9175, 3);
+    expect(g).toBeCloseTo(0.2003, 3);
+    expect(b).toBeCloseTo(0.1386, 3);
+  });
+});
+
+describe('sRGB cylindrical and print models', () => {
+  it('converts to HSV', () => {
+    expectChannels(rgbToHsv(RED), { h: 0, s: 100, v: 100 });
+    expectChannels(rgbToHsv(ORANGE), { h: 28.94, s: 79.44, v: 83.92 });
+    expectChannels(rgbToHsv(WHITE), { h: 0, s: 0, v: 100 });
+  });
+
+  it('converts to HWB', () => {
+    expectChannels(rgbToHwb(RED), { h: 0, w: 0, b: 0 });
+    expectChannels(rgbToHwb(ORANGE), { h: 28.94, w: 17.25, b: 16.08 });
+    expectChannels(rgbToHwb(WHITE), { h: 0, w: 100, b: 0 });
+  });
+
+  it('converts to naive CMYK', () => {
+    expectChannels(rgbToCmyk(RED), { c: 0, m: 100, y: 100, k: 0 });
+    expectChannels(rgbToCmyk(ORANGE), { c: 0, m: 41.12, y: 79.44, k: 16.08 });
+    expectChannels(rgbToCmyk(BLACK), { c: 0, m: 0, y: 0, k: 100 });
+  });
+
+  it('leaves primaries and paper white alone in coated CMYK', () => {
+    expectChannels(rgbToCmykCoated(RED), { c: 0, m: 100, y: 100, k: 0 });
+    expectChannels(rgbToCmykCoated(WHITE), { c: 0, m: 0, y: 0, k: 0 });
+  });
+
+  it('replaces part of the gray component with black in coated CMYK', () => {
+    const coated = rgbToCmykCoated(ORANGE);
+    const naive = rgbToCmyk(ORANGE);
+
+    expect(coated.k).toBeLessThan(naive.k);
+    expect(coated.c).toBeGreaterThan(0);
+  });
+
+  it('keeps rich black within the 300% ink limit in coated CMYK', () => {
+    const { c, m, y, k } = rgbToCmykCoated(BLACK);
+
+    expect(c + m + y + k).toBeCloseTo(300, 6);
+    expect(k).toBeCloseTo(77.37, 2); // 80% gray replacement after dot gain
+    expect(c).toBeCloseTo(m, 6);
+    expect(m).toBeCloseTo(y, 6);
+  });
+});
+
+describe('CIE models', () => {
+  it('converts to XYZ with the D65 white at Y 100', () => {
+    expectChannels(rgbToXyz(WHITE), { x: 95.05, y: 100, z: 108.91 });
+    expectChannels(rgbToXyz(RED), { x: 41.24, y: 21.26, z: 1.93 });
+  });
+
+  it('matches CSS lch() for sRGB red', () => {
+    expectChannels(rgbToLch(RED), { l: 54.29, c: 106.84, h: 40.86 }, 1);
+  });
+
+  it('gives white no chroma in LCh', () => {
+    const lch = rgbToLch(WHITE);
+    expect(lch.l).toBeCloseTo(100, 3);
+    expect(lch.c).toBeCloseTo(0, 3);
+  });
+});
+
+describe('round trips', () => {
+  it.each(SAMPLES.map(rgb => [label(rgb), rgb]))('HSL preserves %s', (_, rgb) => {
+    expect(hslToRgb(rgbToHsl(rgb))).toEqual(rgb);
+  });
+
+  it.each(SAMPLES.map(rgb => [label(rgb), rgb]))('OKLCH preserves %s', (_, rgb) => {
+    expect(oklchToRgb(rgbToOklch(rgb))).toEqual(rgb);
+  });
+
+  it.each(SAMPLES.map(rgb => [label(rgb), rgb]))('Display P3 preserves %s', (_, rgb) => {
+    expect(displayP3ToRgb(rgbToDisplayP3(rgb))).toEqual(rgb);
+  });
+});
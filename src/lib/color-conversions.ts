@@ -0,0 +1,277 @@
+import { RGB } from '@/lib/sampling';
+
+export interface HSL { h: number; s: number; l: number } // h 0-360, s/l 0-100
+export interface HSV { h: number; s: number; v: number } // h 0-360, s/v 0-100
+export interface HWB { h: number; w: number; b: number } // h 0-360, w/b 0-100
+export interface CMYK { c: number; m: number; y: number; k: number } // 0-100
+export interface XYZ { x: number; y: number; z: number } // Y = 100 for the white point
+export interface Lab { l: number; a: number; b: number } // CIELAB, D50 white
+export interface LCh { l: number; c: number; h: number }
+export interface OKLab { l: number; a: number; b: number } // l 0-1
+export interface OKLCh { l: number; c: number; h: number }
+
+type Vector3 = [number, number, number];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// sRGB transfer function; channel values in 0-1
+export const srgbToLinear = (value: number): number => {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+export const linearToSrgb = (value: number): number => {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+};
+
+export const rgbToLinear = ({ r, g, b }: RGB): Vector3 => {
+  return [srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255)];
+};
+
+export const linearToRgb = ([r, g, b]: Vector3): RGB => {
+  const toByte = (value: number) => Math.round(clamp(linearToSrgb(clamp(value, 0, 1)), 0, 1) * 255);
+  return { r: toByte(r), g: toByte(g), b: toByte(b) };
+};
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  const value = parseInt(digits, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+const multiply = (m: number[], [a, b, c]: Vector3): Vector3 => [
+  m[0] * a + m[1] * b + m[2] * c,
+  m[3] * a + m[4] * b + m[5] * c,
+  m[6] * a + m[7] * b + m[8] * c,
+];
+
+const toPolar = (a: number, b: number) => {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { c: Math.hypot(a, b), h: h < 0 ? h + 360 : h };
+};
+
+const fromPolar = (c: number, h: number) => {
+  const radians = (h * Math.PI) / 180;
+  return { a: c * Math.cos(radians), b: c * Math.sin(radians) };
+};
+
+// Hue shared by the cylindrical sRGB models
+const rgbHue = (r: number, g: number, b: number, max: number, delta: number) => {
+  if (!delta) return 0;
+  let h: number;
+  if (max === r) h = ((g - b) / delta) % 6;
+  else if (max === g) h = (b - r) / delta + 2;
+  else h = (r - g) / delta + 4;
+  h *= 60;
+  return h < 0 ? h + 360 : h;
+};
+
+export const rgbToHsl = ({ r, g, b }: RGB): HSL => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const delta = max - min;
+  const l = (max + min) / 2;
+  const s = delta ? delta / (1 - Math.abs(2 * l - 1)) : 0;
+  return { h: rgbHue(rn, gn, bn, max, delta), s: s * 100, l: l * 100 };
+};
+
+export const hslToRgb = ({ h, s, l }: HSL): RGB => {
+  const sn = s / 100;
+  const ln = l / 100;
+  const chroma = (1 - Math.abs(2 * ln - 1)) * sn;
+  const x = chroma * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = ln - chroma / 2;
+  const sector = Math.floor((((h % 360) + 360) % 360) / 60);
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x],
+  ][sector];
+  return { r: Math.round((r + m) * 255), g: Math.round((g + m) * 255), b: Math.round((b + m) * 255) };
+};
+
+export const rgbToHsv = ({ r, g, b }: RGB): HSV => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+  return { h: rgbHue(rn, gn, bn, max, delta), s: max ? (delta / max) * 100 : 0, v: max * 100 };
+};
+
+export const rgbToHwb = (rgb: RGB): HWB => {
+  const { h } = rgbToHsv(rgb);
+  return {
+    h,
+    w: (Math.min(rgb.r, rgb.g, rgb.b) / 255) * 100,
+    b: (1 - Math.max(rgb.r, rgb.g, rgb.b) / 255) * 100,
+  };
+};
+
+/** Device-independent CMYK: full black generation, no ink model. */
+export const rgbToCmyk = ({ r, g, b }: RGB): CMYK => {
+  const k = 1 - Math.max(r, g, b) / 255;
+  if (k >= 1) return { c: 0, m: 0, y: 0, k: 100 };
+
+  const ink = (channel: number) => ((1 - channel / 255 - k) / (1 - k)) * 100;
+  return { c: ink(r), m: ink(g), y: ink(b), k: k * 100 };
+};
+
+// Rough stand-in for a coated press profile (GRACoL/SWOP-like)
+const GRAY_COMPONENT_REPLACEMENT = 0.8;
+const DOT_GAIN_EXPONENT = 1.15;
+const TOTAL_INK_LIMIT = 300;
+
+/**
+ * CMYK approximating a coated offset profile: partial gray component
+ * replacement, midtone dot-gain compensation and a 300% total ink limit.
+ * Not a substitute for an ICC transform, but closer to press values than
+ * the naive formula.
+ */
+export const rgbToCmykCoated = (rgb: RGB): CMYK => {
+  const cmy = [1 - rgb.r / 255, 1 - rgb.g / 255, 1 - rgb.b / 255];
+  const k = Math.min(...cmy) * GRAY_COMPONENT_REPLACEMENT;
+  const inks = cmy.map(value => (k < 1 ? (value - k) / (1 - k) : 0));
+
+  const compensated = [...inks, k].map(value => clamp(value, 0, 1) ** DOT_GAIN_EXPONENT * 100);
+  const total = compensated.reduce((sum, value) => sum + value, 0);
+  if (total > TOTAL_INK_LIMIT) {
+    // Pull back the chromatic inks, keeping black for density
+    const scale = (TOTAL_INK_LIMIT - compensated[3]) / (total - compensated[3]);
+    for (let i = 0; i < 3; i++) compensated[i] *= scale;
+  }
+
+  const [c, m, y, black] = compensated;
+  return { c, m, y, k: black };
+};
+
+// Linear sRGB -> XYZ (D65)
+const SRGB_TO_XYZ = [
+  0.4123907992659595, 0.357584339383878, 0.1804807884018343,
+  0.21263900587151036, 0.715168678767756, 0.07219231536073371,
+  0.01933081871559185, 0.11919477979462599, 0.9505321522496606,
+];
+
+const XYZ_TO_SRGB = [
+  3.2409699419045213, -1.5373831775700935, -0.4986107602930033,
+  -0.9692436362808798, 1.8759675015077206, 0.04155505740717561,
+  0.05563007969699361, -0.20397695888897657, 1.0569715142428786,
+];
+
+// XYZ (D65) -> linear Display P3
+const XYZ_TO_P3 = [
+  2.493496911941425, -0.9313836179191239, -0.40271078445071684,
+  -0.8294889695615747, 1.7626640603183463, 0.023624685841943577,
+  0.03584583024378447, -0.07617238926804182, 0.9568845240076872,
+];
+
+const P3_TO_XYZ = [
+  0.4865709486482162, 0.26566769316909306, 0.1982172852343625,
+  0.2289745640697488, 0.6917385218365064, 0.079286914093745,
+  0, 0.04511338185890264, 1.043944368900976,
+];
+
+// Bradford chromatic adaptation between D65 and D50
+const D65_TO_D50 = [
+  1.0479298208405488, 0.022946793341019088, -0.05019222954313557,
+  0.029627815688159344, 0.990434484573249, -0.01707382502938514,
+  -0.009243058152591178, 0.015055144896577895, 0.7518742899580008,
+];
+
+const D50_TO_D65 = [
+  0.9554734527042182, -0.023098536874261423, 0.0632593086610217,
+  -0.028369706963208136, 1.0099954580106629, 0.021041398966943008,
+  0.012314001688319899, -0.020507696433477912, 1.3303659366080753,
+];
+
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+export const rgbToXyz = (rgb: RGB): XYZ => {
+  const [x, y, z] = multiply(SRGB_TO_XYZ, rgbToLinear(rgb));
+  return { x: x * 100, y: y * 100, z: z * 100 };
+};
+
+export const xyzToRgb = ({ x, y, z }: XYZ): RGB => {
+  return linearToRgb(multiply(XYZ_TO_SRGB, [x / 100, y / 100, z / 100]));
+};
+
+/** Display P3 channels in 0-1, as used by CSS `color(display-p3 ...)`. */
+export const rgbToDisplayP3 = (rgb: RGB): Vector3 => {
+  const [r, g, b] = multiply(XYZ_TO_P3, multiply(SRGB_TO_XYZ, rgbToLinear(rgb)));
+  return [r, g, b].map(value => clamp(linearToSrgb(value), 0, 1)) as Vector3;
+};
+
+/** Inverse of rgbToDisplayP3; colors outside sRGB are clipped. */
+export const displayP3ToRgb = ([r, g, b]: Vector3): RGB => {
+  return linearToRgb(multiply(XYZ_TO_SRGB, multiply(P3_TO_XYZ, [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)])));
+};
+
+/** CIELAB relative to D50, matching CSS `lab()`. */
+export const rgbToLab = (rgb: RGB): Lab => {
+  const xyz = multiply(D65_TO_D50, multiply(SRGB_TO_XYZ, rgbToLinear(rgb)));
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const ratio = value / D50_WHITE[i];
+    return ratio > LAB_EPSILON ? Math.cbrt(ratio) : (LAB_KAPPA * ratio + 16) / 116;
+  });
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToRgb = ({ l, a, b }: Lab): RGB => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const xyz = [fx, fy, fz].map((f, i) => {
+    const cube = f ** 3;
+    const ratio = cube > LAB_EPSILON ? cube : (116 * f - 16) / LAB_KAPPA;
+    return ratio * D50_WHITE[i];
+  }) as Vector3;
+  return linearToRgb(multiply(XYZ_TO_SRGB, multiply(D50_TO_D65, xyz)));
+};
+
+export const rgbToLch = (rgb: RGB): LCh => {
+  const { l, a, b } = rgbToLab(rgb);
+  return { l, ...toPolar(a, b) };
+};
+
+export const lchToRgb = ({ l, c, h }: LCh): RGB => {
+  return labToRgb({ l, ...fromPolar(c, h) });
+};
+
+export const rgbToOklab = (rgb: RGB): OKLab => {
+  const [r, g, b] = rgbToLinear(rgb);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+export const oklabToRgb = ({ l, a, b }: OKLab): RGB => {
+  const lp = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const mp = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const sp = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return linearToRgb([
+    4.0767416621 * lp - 3.3077115913 * mp + 0.2309699292 * sp,
+    -1.2684380046 * lp + 2.6097574011 * mp - 0.3413193965 * sp,
+    -0.0041960863 * lp - 0.7034186147 * mp + 1.707614701 * sp,
+  ]);
+};
+
+export const rgbToOklch = (rgb: RGB): OKLCh => {
+  const { l, a, b } = rgbToOklab(rgb);
+  return { l, ...toPolar(a, b) };
+};
+
+export const oklchToRgb = ({ l, c, h }: OKLCh): RGB => {
+  return oklabToRgb({ l, ...fromPolar(c, h) });
+};
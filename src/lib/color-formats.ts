@@ -0,0 +1,127 @@
+import {
+  rgbToCmyk,
+  rgbToCmykCoated,
+  rgbToHsl,
+  rgbToHsv,
+  rgbToHwb,
+  rgbToLab,
+  rgbToLch,
+  rgbToOklab,
+  rgbToOklch,
+  rgbToXyz,
+} from '@/lib/color-conversions';
+import { ColorData } from '@/lib/sampling';
+
+export type ColorFormatId =
+  | 'rgb'
+  | 'hsl'
+  | 'hsv'
+  | 'hwb'
+  | 'cmyk'
+  | 'cmyk-coated'
+  | 'xyz'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch';
+
+export interface ColorFormat {
+  id: ColorFormatId;
+  label: string;
+  format: (color: ColorData) => string;
+}
+
+// Round for display and drop trailing zeros
+const n = (value: number, digits = 0) => String(Number(value.toFixed(digits)));
+
+const pct = (value: number, digits = 0) => `${n(value, digits)}%`;
+
+export const COLOR_FORMATS: ColorFormat[] = [
+  {
+    id: 'rgb',
+    label: 'RGB',
+    format: ({ rgb }) => `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`,
+  },
+  {
+    id: 'hsl',
+    label: 'HSL',
+    format: ({ rgb }) => {
+      const { h, s, l } = rgbToHsl(rgb);
+      return `hsl(${n(h)}, ${pct(s)}, ${pct(l)})`;
+    },
+  },
+  {
+    id: 'hsv',
+    label: 'HSV / HSB',
+    format: ({ rgb }) => {
+      const { h, s, v } = rgbToHsv(rgb);
+      return `hsv(${n(h)}, ${pct(s)}, ${pct(v)})`;
+    },
+  },
+  {
+    id: 'hwb',
+    label: 'HWB',
+    format: ({ rgb }) => {
+      const { h, w, b } = rgbToHwb(rgb);
+      return `hwb(${n(h)} ${pct(w)} ${pct(b)})`;
+    },
+  },
+  {
+    id: 'cmyk',
+    label: 'CMYK',
+    format: ({ rgb }) => {
+      const { c, m, y, k } = rgbToCmyk(rgb);
+      return `cmyk(${pct(c)}, ${pct(m)}, ${pct(y)}, ${pct(k)})`;
+    },
+  },
+  {
+    id: 'cmyk-coated',
+    label: 'CMYK (coated approx.)',
+    format: ({ rgb }) => {
+      const { c, m, y, k } = rgbToCmykCoated(rgb);
+      return `cmyk(${pct(c)}, ${pct(m)}, ${pct(y)}, ${pct(k)})`;
+    },
+  },
+  {
+    id: 'xyz',
+    label: 'CIE XYZ',
+    format: ({ rgb }) => {
+      const { x, y, z } = rgbToXyz(rgb);
+      return `XYZ(${n(x, 2)}, ${n(y, 2)}, ${n(z, 2)})`;
+    },
+  },
+  {
+    id: 'lab',
+    label: 'CIELAB',
+    format: ({ rgb }) => {
+      const { l, a, b } = rgbToLab(rgb);
+      return `lab(${pct(l, 2)} ${n(a, 2)} ${n(b, 2)})`;
+    },
+  },
+  {
+    id: 'lch',
+    label: 'LCh',
+    format: ({ rgb }) => {
+      const { l, c, h } = rgbToLch(rgb);
+      return `lch(${pct(l, 2)} ${n(c, 2)} ${n(h, 2)})`;
+    },
+  },
+  {
+    id: 'oklab',
+    label: 'OKLab',
+    format: ({ rgb }) => {
+      const { l, a, b } = rgbToOklab(rgb);
+      return `oklab(${n(l, 4)} ${n(a, 4)} ${n(b, 4)})`;
+    },
+  },
+  {
+    id: 'oklch',
+    label: 'OKLCH',
+    format: ({ rgb }) => {
+      const { l, c, h } = rgbToOklch(rgb);
+      return `oklch(${n(l, 4)} ${n(c, 4)} ${n(h, 2)})`;
+    },
+  },
+];
+
+export const DEFAULT_CARD_FORMATS: ColorFormatId[] = ['rgb'];
@@ -0,0 +1,195 @@
+import { hexToRgb, Lab, labToRgb, rgbToLab } from '@/lib/color-conversions';
+import { parseCsv } from '@/lib/csv';
+import { deltaE2000 } from '@/lib/delta-e';
+import { Palette } from '@/lib/palettes';
+import { RGB, rgbToHex } from '@/lib/sampling';
+
+export interface LibraryColor {
+  name: string;
+  code?: string;
+  hex: string;
+  lab: Lab; // D50, matching rgbToLab
+}
+
+export interface ColorLibrary {
+  id: string;
+  name: string;
+  colors: LibraryColor[];
+  createdAt: number;
+}
+
+export interface LibraryMatch {
+  color: LibraryColor;
+  deltaE: number; // CIEDE2000
+}
+
+export interface LibraryMatchResult {
+  matches: LibraryMatch[];
+  withinTolerance: boolean;
+}
+
+export interface LibraryParseResult {
+  colors: LibraryColor[];
+  errors: string[];
+}
+
+export const DEFAULT_MATCH_COUNT = 3;
+export const DEFAULT_MATCH_TOLERANCE = 3;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/** Build an entry from hex, or from Lab when no hex is given. */
+const toLibraryColor = (
+  name: string,
+  hex: string | undefined,
+  lab: [unknown, unknown, unknown] | null,
+  code?: string
+): LibraryColor | string => {
+  if (!name) return 'missing name';
+
+  if (hex) {
+    const rgb = hexToRgb(hex.startsWith('#') ? hex : `#${hex}`);
+    if (!rgb) return `invalid hex "${hex}"`;
+    return { name, code: code || undefined, hex: rgbToHex(rgb.r, rgb.g, rgb.b), lab: rgbToLab(rgb) };
+  }
+
+  const [l, a, b] = lab ? lab.map(toNumber) : [null, null, null];
+  if (l === null || a === null || b === null) return 'needs a hex or L, a and b values';
+  const rgb = labToRgb({ l, a, b });
+  return { name, code: code || undefined, hex: rgbToHex(rgb.r, rgb.g, rgb.b), lab: { l, a, b } };
+};
+
+const parseJsonLibrary = (text: string): LibraryParseResult => {
+  const colors: LibraryColor[] = [];
+  const errors: string[] = [];
+  let items: unknown;
+  try {
+    items = JSON.parse(text);
+  } catch {
+    return { colors, errors: ['File is not valid JSON'] };
+  }
+
+  const list = Array.isArray(items) ? items : (items as { colors?: unknown[] })?.colors;
+  if (!Array.isArray(list)) return { colors, errors: ['Expected an array of colors'] };
+
+  list.forEach((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const lab = entry.lab as number[] | Record<string, number> | undefined;
+    const labValues: [unknown, unknown, unknown] | null = Array.isArray(lab)
+      ? [lab[0], lab[1], lab[2]]
+      : lab
+        ? [lab.l ?? lab.L, lab.a, lab.b]
+        : entry.L !== undefined || entry.l !== undefined
+          ? [entry.L ?? entry.l, entry.a, entry.b]
+          : null;
+    const result = toLibraryColor(
+      String(entry.name ?? '').trim(),
+      entry.hex ? String(entry.hex).trim() : undefined,
+      labValues,
+      entry.code ? String(entry.code).trim() : undefined
+    );
+    if (typeof result === 'string') errors.push(`Entry ${index + 1}: ${result}`);
+    else colors.push(result);
+  });
+
+  return { colors, errors };
+};
+
+const parseCsvLibrary = (text: string): LibraryParseResult => {
+  const colors: LibraryColor[] = [];
+  const errors: string[] = [];
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { colors, errors: ['File is empty'] };
+
+  const columns = header.map(column => column.toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const nameColumn = column('name');
+  const hexColumn = column('hex', 'color');
+  const codeColumn = column('code', 'id');
+  const labColumns = [column('l', 'lab_l', 'l*'), column('a', 'lab_a', 'a*'), column('b', 'lab_b', 'b*')];
+
+  if (nameColumn < 0) return { colors, errors: ['Header needs a "name" column'] };
+
+  rows.forEach((fields, index) => {
+    const hex = hexColumn >= 0 ? fields[hexColumn] : undefined;
+    const lab = labColumns.every(position => position >= 0)
+      ? (labColumns.map(position => fields[position]) as [string, string, string])
+      : null;
+    const result = toLibraryColor(
+      fields[nameColumn] ?? '',
+      hex || undefined,
+      lab,
+      codeColumn >= 0 ? fields[codeColumn] : undefined
+    );
+    // Line numbers count the header
+    if (typeof result === 'string') errors.push(`Line ${index + 2}: ${result}`);
+    else colors.push(result);
+  });
+
+  return { colors, errors };
+};
+
+/**
+ * Parse a library from JSON (an array of `{ name, hex | lab | L/a/b, code }`)
+ * or CSV with a header row naming the `name`, `hex`, `L`, `a`, `b` and
+ * `code` columns. Lab values are taken as D50.
+ */
+export const parseColorLibrary = (text: string): LibraryParseResult => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJsonLibrary(trimmed) : parseCsvLibrary(trimmed);
+};
+
+/** Library entries for a saved palette, so it can be matched against like an imported spec. */
+export const paletteToLibraryColors = (palette: Palette): LibraryColor[] =>
+  palette.swatches.map(({ name, hex, rgb }) => ({ name, hex, lab: rgbToLab(rgb) }));
+
+export const matchLibrary = (
+  library: ColorLibrary,
+  sample: RGB,
+  count: number,
+  tolerance: number
+): LibraryMatchResult => {
+  const lab = rgbToLab(sample);
+  const matches = library.colors
+    .map(color => ({ color, deltaE: deltaE2000(color.lab, lab) }))
+    .sort((a, b) => a.deltaE - b.deltaE)
+    .slice(0, count);
+  return { matches, withinTolerance: matches.length > 0 && matches[0].deltaE <= tolerance };
+};
+
+const STORAGE_KEY = 'pixel-picker:color-libraries';
+
+export interface StoredLibraries {
+  libraries: ColorLibrary[];
+  activeId: string | null;
+  matchCount: number;
+  tolerance: number;
+}
+
+const EMPTY_LIBRARIES: StoredLibraries = {
+  libraries: [],
+  activeId: null,
+  matchCount: DEFAULT_MATCH_COUNT,
+  tolerance: DEFAULT_MATCH_TOLERANCE,
+};
+
+export const loadColorLibraries = (): StoredLibraries => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return { ...EMPTY_LIBRARIES, ...stored };
+  } catch {
+    return EMPTY_LIBRARIES;
+  }
+};
+
+export const saveColorLibraries = (libraries: StoredLibraries) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(libraries));
+  } catch (error) {
+    console.error('Failed to save color libraries:', error);
+  }
+};
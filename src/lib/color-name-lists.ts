@@ -0,0 +1,428 @@
+// Bundled name lists for nearest-color lookup, as [name, hex] pairs.
+
+/** The 148 CSS Color Module Level 4 named colors. */
+export const CSS_COLOR_NAMES: [string, string][] = [
+  ['aliceblue', '#f0f8ff'],
+  ['antiquewhite', '#faebd7'],
+  ['aqua', '#00ffff'],
+  ['aquamarine', '#7fffd4'],
+  ['azure', '#f0ffff'],
+  ['beige', '#f5f5dc'],
+  ['bisque', '#ffe4c4'],
+  ['black', '#000000'],
+  ['blanchedalmond', '#ffebcd'],
+  ['blue', '#0000ff'],
+  ['blueviolet', '#8a2be2'],
+  ['brown', '#a52a2a'],
+  ['burlywood', '#deb887'],
+  ['cadetblue', '#5f9ea0'],
+  ['chartreuse', '#7fff00'],
+  ['chocolate', '#d2691e'],
+  ['coral', '#ff7f50'],
+  ['cornflowerblue', '#6495ed'],
+  ['cornsilk', '#fff8dc'],
+  ['crimson', '#dc143c'],
+  ['cyan', '#00ffff'],
+  ['darkblue', '#00008b'],
+  ['darkcyan', '#008b8b'],
+  ['darkgoldenrod', '#b8860b'],
+  ['darkgray', '#a9a9a9'],
+  ['darkgreen', '#006400'],
+  ['darkgrey', '#a9a9a9'],
+  ['darkkhaki', '#bdb76b'],
+  ['darkmagenta', '#8b008b'],
+  ['darkolivegreen', '#556b2f'],
+  ['darkorange', '#ff8c00'],
+  ['darkorchid', '#9932cc'],
+  ['darkred', '#8b0000'],
+  ['darksalmon', '#e9967a'],
+  ['darkseagreen', '#8fbc8f'],
+  ['darkslateblue', '#483d8b'],
+  ['darkslategray', '#2f4f4f'],
+  ['darkslategrey', '#2f4f4f'],
+  ['darkturquoise', '#00ced1'],
+  ['darkviolet', '#9400d3'],
+  ['deeppink', '#ff1493'],
+  ['deepskyblue', '#00bfff'],
+  ['dimgray', '#696969'],
+  ['dimgrey', '#696969'],
+  ['dodgerblue', '#1e90ff'],
+  ['firebrick', '#b22222'],
+  ['floralwhite', '#fffaf0'],
+  ['forestgreen', '#228b22'],
+  ['fuchsia', '#ff00ff'],
+  ['gainsboro', '#dcdcdc'],
+  ['ghostwhite', '#f8f8ff'],
+  ['gold', '#ffd700'],
+  ['goldenrod', '#daa520'],
+  ['gray', '#808080'],
+  ['green', '#008000'],
+  ['greenyellow', '#adff2f'],
+  ['grey', '#808080'],
+  ['honeydew', '#f0fff0'],
+  ['hotpink', '#ff69b4'],
+  ['indianred', '#cd5c5c'],
+  ['indigo', '#4b0082'],
+  ['ivory', '#fffff0'],
+  ['khaki', '#f0e68c'],
+  ['lavender', '#e6e6fa'],
+  ['lavenderblush', '#fff0f5'],
+  ['lawngreen', '#7cfc00'],
+  ['lemonchiffon', '#fffacd'],
+  ['lightblue', '#add8e6'],
+  ['lightcoral', '#f08080'],
+  ['lightcyan', '#e0ffff'],
+  ['lightgoldenrodyellow', '#fafad2'],
+  ['lightgray', '#d3d3d3'],
+  ['lightgreen', '#90ee90'],
+  ['lightgrey', '#d3d3d3'],
+  ['lightpink', '#ffb6c1'],
+  ['lightsalmon', '#ffa07a'],
+  ['lightseagreen', '#20b2aa'],
+  ['lightskyblue', '#87cefa'],
+  ['lightslategray', '#778899'],
+  ['lightslategrey', '#778899'],
+  ['lightsteelblue', '#b0c4de'],
+  ['lightyellow', '#ffffe0'],
+  ['lime', '#00ff00'],
+  ['limegreen', '#32cd32'],
+  ['linen', '#faf0e6'],
+  ['magenta', '#ff00ff'],
+  ['maroon', '#800000'],
+  ['mediumaquamarine', '#66cdaa'],
+  ['mediumblue', '#0000cd'],
+  ['mediumorchid', '#ba55d3'],
+  ['mediumpurple', '#9370db'],
+  ['mediumseagreen', '#3cb371'],
+  ['mediumslateblue', '#7b68ee'],
+  ['mediumspringgreen', '#00fa9a'],
+  ['mediumturquoise', '#48d1cc'],
+  ['mediumvioletred', '#c71585'],
+  ['midnightblue', '#191970'],
+  ['mintcream', '#f5fffa'],
+  ['mistyrose', '#ffe4e1'],
+  ['moccasin', '#ffe4b5'],
+  ['navajowhite', '#ffdead'],
+  ['navy', '#000080'],
+  ['oldlace', '#fdf5e6'],
+  ['olive', '#808000'],
+  ['olivedrab', '#6b8e23'],
+  ['orange', '#ffa500'],
+  ['orangered', '#ff4500'],
+  ['orchid', '#da70d6'],
+  ['palegoldenrod', '#eee8aa'],
+  ['palegreen', '#98fb98'],
+  ['paleturquoise', '#afeeee'],
+  ['palevioletred', '#db7093'],
+  ['papayawhip', '#ffefd5'],
+  ['peachpuff', '#ffdab9'],
+  ['peru', '#cd853f'],
+  ['pink', '#ffc0cb'],
+  ['plum', '#dda0dd'],
+  ['powderblue', '#b0e0e6'],
+  ['purple', '#800080'],
+  ['rebeccapurple', '#663399'],
+  ['red', '#ff0000'],
+  ['rosybrown', '#bc8f8f'],
+  ['royalblue', '#4169e1'],
+  ['saddlebrown', '#8b4513'],
+  ['salmon', '#fa8072'],
+  ['sandybrown', '#f4a460'],
+  ['seagreen', '#2e8b57'],
+  ['seashell', '#fff5ee'],
+  ['sienna', '#a0522d'],
+  ['silver', '#c0c0c0'],
+  ['skyblue', '#87ceeb'],
+  ['slateblue', '#6a5acd'],
+  ['slategray', '#708090'],
+  ['slategrey', '#708090'],
+  ['snow', '#fffafa'],
+  ['springgreen', '#00ff7f'],
+  ['steelblue', '#4682b4'],
+  ['tan', '#d2b48c'],
+  ['teal', '#008080'],
+  ['thistle', '#d8bfd8'],
+  ['tomato', '#ff6347'],
+  ['turquoise', '#40e0d0'],
+  ['violet', '#ee82ee'],
+  ['wheat', '#f5deb3'],
+  ['white', '#ffffff'],
+  ['whitesmoke', '#f5f5f5'],
+  ['yellow', '#ffff00'],
+  ['yellowgreen', '#9acd32'],
+];
+
+/** The 256 most frequently named colors from the xkcd color survey. */
+export const XKCD_COLOR_NAMES: [string, string][] = [
+  ['purple', '#7e1e9c'],
+  ['green', '#15b01a'],
+  ['blue', '#0343df'],
+  ['pink', '#ff81c0'],
+  ['brown', '#653700'],
+  ['red', '#e50000'],
+  ['light blue', '#95d0fc'],
+  ['teal', '#029386'],
+  ['orange', '#f97306'],
+  ['light green', '#96f97b'],
+  ['magenta', '#c20078'],
+  ['yellow', '#ffff14'],
+  ['sky blue', '#75bbfd'],
+  ['grey', '#929591'],
+  ['lime green', '#89fe05'],
+  ['light purple', '#bf77f6'],
+  ['violet', '#9a0eea'],
+  ['dark green', '#033500'],
+  ['turquoise', '#06c2ac'],
+  ['lavender', '#c79fef'],
+  ['dark blue', '#00035b'],
+  ['tan', '#d1b26f'],
+  ['cyan', '#00ffff'],
+  ['aqua', '#13eac9'],
+  ['forest green', '#06470c'],
+  ['mauve', '#ae7181'],
+  ['dark purple', '#35063e'],
+  ['bright green', '#01ff07'],
+  ['maroon', '#650021'],
+  ['olive', '#6e750e'],
+  ['salmon', '#ff796c'],
+  ['beige', '#e6daa6'],
+  ['royal blue', '#0504aa'],
+  ['navy blue', '#001146'],
+  ['lilac', '#cea2fd'],
+  ['black', '#000000'],
+  ['hot pink', '#ff028d'],
+  ['light brown', '#ad8150'],
+  ['pale green', '#c7fdb5'],
+  ['peach', '#ffb07c'],
+  ['olive green', '#677a04'],
+  ['dark pink', '#cb416b'],
+  ['periwinkle', '#8e82fe'],
+  ['sea green', '#53fca1'],
+  ['lime', '#aaff32'],
+  ['indigo', '#380282'],
+  ['mustard', '#ceb301'],
+  ['light pink', '#ffd1df'],
+  ['rose', '#cf6275'],
+  ['bright blue', '#0165fc'],
+  ['neon green', '#0cff0c'],
+  ['burnt orange', '#c04e01'],
+  ['aquamarine', '#04d8b2'],
+  ['navy', '#01153e'],
+  ['grass green', '#3f9b0b'],
+  ['pale blue', '#d0fefe'],
+  ['dark red', '#840000'],
+  ['bright purple', '#be03fd'],
+  ['yellow green', '#c0fb2d'],
+  ['baby blue', '#a2cffe'],
+  ['gold', '#dbb40c'],
+  ['mint green', '#8fff9f'],
+  ['plum', '#580f41'],
+  ['royal purple', '#4b006e'],
+  ['brick red', '#8f1402'],
+  ['dark teal', '#014d4e'],
+  ['burgundy', '#610023'],
+  ['khaki', '#aaa662'],
+  ['blue green', '#137e6d'],
+  ['seafoam green', '#7af9ab'],
+  ['kelly green', '#02ab2e'],
+  ['puke green', '#9aae07'],
+  ['pea green', '#8eab12'],
+  ['taupe', '#b9a281'],
+  ['dark brown', '#341c02'],
+  ['deep purple', '#36013f'],
+  ['chartreuse', '#c1f80a'],
+  ['bright pink', '#fe01b1'],
+  ['light orange', '#fdaa48'],
+  ['mint', '#9ffeb0'],
+  ['pastel green', '#b0ff9d'],
+  ['sand', '#e2ca76'],
+  ['dark orange', '#c65102'],
+  ['spring green', '#a9f971'],
+  ['puce', '#a57e52'],
+  ['seafoam', '#80f9ad'],
+  ['grey blue', '#6b8ba4'],
+  ['army green', '#4b5d16'],
+  ['dark grey', '#363737'],
+  ['dark yellow', '#d5b60a'],
+  ['goldenrod', '#fac205'],
+  ['slate', '#516572'],
+  ['light teal', '#90e4c1'],
+  ['rust', '#a83c09'],
+  ['deep blue', '#040273'],
+  ['pale pink', '#ffcfdc'],
+  ['cerulean', '#0485d1'],
+  ['light red', '#ff474c'],
+  ['mustard yellow', '#d2bd0a'],
+  ['ochre', '#bf9005'],
+  ['pale yellow', '#ffff84'],
+  ['crimson', '#8c000f'],
+  ['fuchsia', '#ed0dd9'],
+  ['hunter green', '#0b4008'],
+  ['blue grey', '#607c8e'],
+  ['slate blue', '#5b7c99'],
+  ['pale purple', '#b790d4'],
+  ['sea blue', '#047495'],
+  ['pinkish purple', '#d648d7'],
+  ['light grey', '#d8dcd6'],
+  ['leaf green', '#5ca904'],
+  ['light yellow', '#fffe7a'],
+  ['eggplant', '#380835'],
+  ['steel blue', '#5a7d9a'],
+  ['moss green', '#658b38'],
+  ['white', '#ffffff'],
+  ['grey green', '#789b73'],
+  ['sage', '#87ae73'],
+  ['brick', '#a03623'],
+  ['burnt sienna', '#b04e0f'],
+  ['reddish brown', '#7f2b0a'],
+  ['cream', '#ffffc2'],
+  ['coral', '#fc5a50'],
+  ['ocean blue', '#03719c'],
+  ['greenish', '#40a368'],
+  ['dark magenta', '#960056'],
+  ['red orange', '#fd3c06'],
+  ['bluish purple', '#703be7'],
+  ['midnight blue', '#020035'],
+  ['light violet', '#d6b4fc'],
+  ['dusty rose', '#c0737a'],
+  ['greenish yellow', '#cdfd02'],
+  ['yellowish green', '#b0dd16'],
+  ['purplish blue', '#601ef9'],
+  ['greyish blue', '#5e819d'],
+  ['grape', '#6c3461'],
+  ['light olive', '#acbf69'],
+  ['cornflower blue', '#5170d7'],
+  ['pinkish red', '#f10c45'],
+  ['bright red', '#ff000d'],
+  ['azure', '#069af3'],
+  ['blue purple', '#5729ce'],
+  ['dark turquoise', '#045c5a'],
+  ['electric blue', '#0652ff'],
+  ['off white', '#ffffe4'],
+  ['powder blue', '#b1d1fc'],
+  ['wine', '#80013f'],
+  ['dull green', '#74a662'],
+  ['apple green', '#76cd26'],
+  ['light turquoise', '#7ef4cc'],
+  ['neon purple', '#bc13fe'],
+  ['cobalt', '#1e488f'],
+  ['pinkish', '#d46a7e'],
+  ['olive drab', '#6f7632'],
+  ['dark cyan', '#0a888a'],
+  ['purple blue', '#632de9'],
+  ['dark violet', '#34013f'],
+  ['dark lavender', '#856798'],
+  ['forrest green', '#154406'],
+  ['pale orange', '#ffa756'],
+  ['greenish blue', '#0b8b87'],
+  ['dark tan', '#af884a'],
+  ['green blue', '#06b48b'],
+  ['bluish green', '#10a674'],
+  ['pastel blue', '#a2bffe'],
+  ['moss', '#769958'],
+  ['grass', '#5cac2d'],
+  ['deep pink', '#cb0162'],
+  ['blood red', '#980002'],
+  ['sage green', '#88b378'],
+  ['aqua blue', '#02d8e9'],
+  ['terracotta', '#ca6641'],
+  ['pastel purple', '#caa0ff'],
+  ['sienna', '#a9561e'],
+  ['dark olive', '#373e02'],
+  ['green yellow', '#c9ff27'],
+  ['scarlet', '#be0119'],
+  ['greyish green', '#82a67d'],
+  ['chocolate', '#3d1c02'],
+  ['blue violet', '#5d06e9'],
+  ['baby pink', '#ffb7ce'],
+  ['charcoal', '#343837'],
+  ['pine green', '#0a481e'],
+  ['pumpkin', '#e17701'],
+  ['greenish brown', '#696112'],
+  ['red brown', '#8b2e16'],
+  ['brownish green', '#6a6e09'],
+  ['tangerine', '#ff9408'],
+  ['salmon pink', '#fe7b7c'],
+  ['aqua green', '#12e193'],
+  ['raspberry', '#b00149'],
+  ['greyish purple', '#887191'],
+  ['rose pink', '#f7879a'],
+  ['neon pink', '#fe019a'],
+  ['cobalt blue', '#030aa7'],
+  ['orange brown', '#be6400'],
+  ['deep red', '#9a0200'],
+  ['orange red', '#fd411e'],
+  ['dirty yellow', '#cdc50a'],
+  ['orchid', '#c875c4'],
+  ['reddish pink', '#fe2c54'],
+  ['reddish purple', '#910951'],
+  ['yellow orange', '#fcb001'],
+  ['light cyan', '#acfffc'],
+  ['sky', '#82cafc'],
+  ['light magenta', '#fa5ff7'],
+  ['pale red', '#d9544d'],
+  ['emerald', '#01a049'],
+  ['dark beige', '#ac9362'],
+  ['jade', '#1fa774'],
+  ['greenish grey', '#96ae8d'],
+  ['dark salmon', '#c85a53'],
+  ['purplish pink', '#ce5dae'],
+  ['dark aqua', '#05696b'],
+  ['brownish orange', '#cb7723'],
+  ['light olive green', '#a4be5c'],
+  ['light aqua', '#8cffdb'],
+  ['clay', '#b66a50'],
+  ['burnt umber', '#a0450e'],
+  ['dull blue', '#49759c'],
+  ['pale brown', '#b1916e'],
+  ['emerald green', '#028f1e'],
+  ['brownish', '#9c6d57'],
+  ['mud', '#735c12'],
+  ['dark rose', '#b5485d'],
+  ['brownish red', '#9e3623'],
+  ['pink purple', '#db4bda'],
+  ['pinky purple', '#c94cbe'],
+  ['camo green', '#526525'],
+  ['faded green', '#7bb274'],
+  ['dusty pink', '#d58a94'],
+  ['purple pink', '#e03fd8'],
+  ['deep green', '#02590f'],
+  ['reddish orange', '#f8481c'],
+  ['mahogany', '#4a0100'],
+  ['aubergine', '#3d0734'],
+  ['dull pink', '#d5869d'],
+  ['evergreen', '#05472a'],
+  ['dark sky blue', '#448ee4'],
+  ['ice blue', '#d7fffe'],
+  ['light tan', '#fbeeac'],
+  ['dirty green', '#667e2c'],
+  ['neon blue', '#04d9ff'],
+  ['denim', '#3b638c'],
+  ['eggshell', '#ffffd4'],
+  ['jungle green', '#048243'],
+  ['dark peach', '#de7e5d'],
+  ['umber', '#b26400'],
+  ['bright yellow', '#fffd01'],
+  ['dusty blue', '#5a86ad'],
+  ['electric green', '#21fc0d'],
+  ['lighter green', '#75fd63'],
+  ['slate grey', '#59656d'],
+  ['teal green', '#25a36f'],
+  ['marine blue', '#01386a'],
+  ['avocado', '#90b134'],
+];
+
+/** Berlin & Kay's 11 basic color terms. */
+export const BASIC_COLOR_NAMES: [string, string][] = [
+  ['black', '#000000'],
+  ['white', '#ffffff'],
+  ['red', '#e50000'],
+  ['green', '#15b01a'],
+  ['yellow', '#ffff14'],
+  ['blue', '#0343df'],
+  ['brown', '#653700'],
+  ['purple', '#7e1e9c'],
+  ['pink', '#ff81c0'],
+  ['orange', '#f97306'],
+  ['gray', '#929591'],
+];
@@ -0,0 +1,114 @@
+import { hexToRgb, OKLab, rgbToOklab } from '@/lib/color-conversions';
+import { BASIC_COLOR_NAMES, CSS_COLOR_NAMES, XKCD_COLOR_NAMES } from '@/lib/color-name-lists';
+import { RGB } from '@/lib/sampling';
+
+export interface ColorNameEntry {
+  name: string;
+  hex: string;
+}
+
+export interface ColorNameDictionary {
+  id: string;
+  label: string;
+  entries: ColorNameEntry[];
+  builtIn?: boolean;
+}
+
+export interface ColorNameMatch extends ColorNameEntry {
+  distance: number; // Euclidean OKLab distance, scaled by 100
+}
+
+const toEntries = (list: [string, string][]): ColorNameEntry[] =>
+  list.map(([name, hex]) => ({ name, hex }));
+
+export const BUILT_IN_DICTIONARIES: ColorNameDictionary[] = [
+  { id: 'css', label: 'CSS named colors', entries: toEntries(CSS_COLOR_NAMES) },
+  { id: 'xkcd', label: 'xkcd color survey', entries: toEntries(XKCD_COLOR_NAMES) },
+  { id: 'basic', label: 'Basic color terms', entries: toEntries(BASIC_COLOR_NAMES) },
+].map(dictionary => ({ ...dictionary, builtIn: true }));
+
+export const DEFAULT_DICTIONARY_ID = 'css';
+
+type IndexedEntry = ColorNameEntry & { oklab: OKLab };
+
+/** Precompute OKLab coordinates so lookups stay cheap at frame rate. */
+export const createNameIndex = (dictionary: ColorNameDictionary): IndexedEntry[] => {
+  return dictionary.entries.flatMap(entry => {
+    const rgb = hexToRgb(entry.hex);
+    return rgb ? [{ ...entry, oklab: rgbToOklab(rgb) }] : [];
+  });
+};
+
+export const findNearestName = (index: IndexedEntry[], rgb: RGB): ColorNameMatch | null => {
+  const target = rgbToOklab(rgb);
+  let best: IndexedEntry | null = null;
+  let bestDistance = Infinity;
+
+  for (const entry of index) {
+    const distance = Math.hypot(entry.oklab.l - target.l, entry.oklab.a - target.a, entry.oklab.b - target.b);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+
+  return best ? { name: best.name, hex: best.hex, distance: bestDistance * 100 } : null;
+};
+
+const HEX_PATTERN = /^#?[0-9a-f]{3}([0-9a-f]{3})?$/i;
+
+/**
+ * Parse a user-supplied name list: a JSON array of `{ name, hex }`, a JSON
+ * object of `name: hex`, or one `name, hex` pair per line (comma, tab or
+ * semicolon separated, either order).
+ */
+export const parseNameList = (text: string): ColorNameEntry[] => {
+  const trimmed = text.trim();
+  let entries: ColorNameEntry[] = [];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      entries = Array.isArray(parsed)
+        ? parsed.map(item => ({ name: String(item?.name ?? ''), hex: String(item?.hex ?? '') }))
+        : Object.entries(parsed).map(([name, hex]) => ({ name, hex: String(hex) }));
+    } catch {
+      return [];
+    }
+  } else {
+    entries = trimmed.split(/\r?\n/).map(line => {
+      const fields = line.split(/[,;\t]/).map(field => field.trim().replace(/^"|"$/g, ''));
+      const hex = fields.find(field => HEX_PATTERN.test(field)) ?? '';
+      const name = fields.find(field => field && field !== hex) ?? '';
+      return { name, hex };
+    });
+  }
+
+  return entries
+    .filter(entry => entry.name && HEX_PATTERN.test(entry.hex))
+    .map(entry => ({ name: entry.name, hex: entry.hex.startsWith('#') ? entry.hex : `#${entry.hex}` }));
+};
+
+const STORAGE_KEY = 'pixel-picker:color-names';
+
+interface StoredDictionaries {
+  custom: ColorNameDictionary[];
+  activeId: string | null; // null shows the point names instead
+}
+
+export const loadColorNameDictionaries = (): StoredDictionaries => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return stored ?? { custom: [], activeId: DEFAULT_DICTIONARY_ID };
+  } catch {
+    return { custom: [], activeId: DEFAULT_DICTIONARY_ID };
+  }
+};
+
+export const saveColorNameDictionaries = (dictionaries: StoredDictionaries) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionaries));
+  } catch (error) {
+    console.error('Failed to save color name lists:', error);
+  }
+};
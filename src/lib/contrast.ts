@@ -0,0 +1,79 @@
+import { srgbToLinear } from '@/lib/color-conversions';
+import { RGB } from '@/lib/sampling';
+
+export interface WcagResult {
+  ratio: number;
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+}
+
+/** WCAG 2.x relative luminance (0-1). */
+export const relativeLuminance = ({ r, g, b }: RGB): number => {
+  return 0.2126 * srgbToLinear(r / 255) + 0.7152 * srgbToLinear(g / 255) + 0.0722 * srgbToLinear(b / 255);
+};
+
+export const contrastRatio = (a: RGB, b: RGB): number => {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+export const wcagContrast = (text: RGB, background: RGB): WcagResult => {
+  const ratio = contrastRatio(text, background);
+  return {
+    ratio,
+    aaNormal: ratio >= 4.5,
+    aaLarge: ratio >= 3,
+    aaaNormal: ratio >= 7,
+    aaaLarge: ratio >= 4.5,
+  };
+};
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  rCo: 0.2126729,
+  gCo: 0.7151522,
+  bCo: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+};
+
+const apcaLuminance = ({ r, g, b }: RGB): number => {
+  const y =
+    APCA.rCo * (r / 255) ** APCA.mainTRC +
+    APCA.gCo * (g / 255) ** APCA.mainTRC +
+    APCA.bCo * (b / 255) ** APCA.mainTRC;
+  // Soft clamp near black
+  return y > APCA.blkThrs ? y : y + (APCA.blkThrs - y) ** APCA.blkClmp;
+};
+
+/**
+ * APCA lightness contrast (Lc) for text over a background. Positive for dark
+ * text on light backgrounds, negative for light text on dark ones.
+ */
+export const apcaContrast = (text: RGB, background: RGB): number => {
+  const yText = apcaLuminance(text);
+  const yBackground = apcaLuminance(background);
+  if (Math.abs(yBackground - yText) < APCA.deltaYmin) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** APCA.normBG - yText ** APCA.normTXT) * APCA.scaleBoW;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loBoWoffset) * 100;
+  }
+
+  const sapc = (yBackground ** APCA.revBG - yText ** APCA.revTXT) * APCA.scaleWoB;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loWoBoffset) * 100;
+};
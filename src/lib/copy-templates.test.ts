@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TEMPLATE_ID, loadCopyTemplates } from '@/lib/copy-templates';
+
+const STORAGE_KEY = 'pixel-picker:copy-templates';
+
+const stubStorage = (value: string | null) => {
+  vi.stubGlobal('localStorage', { getItem: (key: string) => (key === STORAGE_KEY ? value : null) });
+};
+
+const DEFAULTS = { custom: [], defaultId: DEFAULT_TEMPLATE_ID };
+
+describe('loadCopyTemplates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the defaults when nothing is stored', () => {
+    stubStorage(null);
+    expect(loadCopyTemplates()).toEqual(DEFAULTS);
+  });
+
+  it.each(['{}', '{"custom":null}', '{"custom":{},"defaultId":7}', '"text"', 'not json'])(
+    'falls back to the defaults for %s',
+    stored => {
+      stubStorage(stored);
+      expect(loadCopyTemplates()).toEqual(DEFAULTS);
+    }
+  );
+
+  it('keeps well-formed templates and drops the rest', () => {
+    const template = { id: 'custom-1', label: 'Swift', template: '#{HEX}' };
+    stubStorage(JSON.stringify({ custom: [template, null, { id: 'custom-2' }], defaultId: 'custom-1' }));
+
+    expect(loadCopyTemplates()).toEqual({ custom: [template], defaultId: 'custom-1' });
+  });
+});
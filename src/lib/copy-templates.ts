@@ -0,0 +1,104 @@
+import { rgbToDisplayP3, rgbToHsl, rgbToOklch } from '@/lib/color-conversions';
+import { ColorData } from '@/lib/sampling';
+
+export interface CopyTemplate {
+  id: string;
+  label: string;
+  template: string;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: CopyTemplate[] = [
+  { id: 'hex', label: 'Hex', template: '{hex}' },
+  { id: 'css-rgb', label: 'CSS rgb()', template: 'rgb({r} {g} {b})' },
+  { id: 'css-hsl', label: 'CSS hsl()', template: 'hsl({h} {s}% {l}%)' },
+  { id: 'css-oklch', label: 'CSS oklch()', template: 'oklch({okl}% {okc} {okh})' },
+  { id: 'css-p3', label: 'CSS color(display-p3)', template: 'color(display-p3 {p3r} {p3g} {p3b})' },
+  { id: 'swift', label: 'Swift UIColor', template: 'UIColor(red: {rf}, green: {gf}, blue: {bf}, alpha: 1.0)' },
+  { id: 'android', label: 'Android Color.argb', template: 'Color.argb(255, {r}, {g}, {b})' },
+  { id: 'flutter', label: 'Flutter Color', template: 'Color(0xFF{HEX})' },
+  { id: 'unity', label: 'Unity Color32', template: 'new Color32({r}, {g}, {b}, 255)' },
+  { id: 'tailwind', label: 'Tailwind arbitrary value', template: 'bg-[{hex}]' },
+].map(template => ({ ...template, builtIn: true }));
+
+export const DEFAULT_TEMPLATE_ID = 'hex';
+
+export const TEMPLATE_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: '{hex}', description: '#rrggbb' },
+  { token: '{HEX}', description: 'RRGGBB' },
+  { token: '{r} {g} {b}', description: '0-255' },
+  { token: '{rf} {gf} {bf}', description: '0-1' },
+  { token: '{h} {s} {l}', description: 'HSL' },
+  { token: '{okl} {okc} {okh}', description: 'OKLCH (L in %)' },
+  { token: '{p3r} {p3g} {p3b}', description: 'Display P3, 0-1' },
+];
+
+const STORAGE_KEY = 'pixel-picker:copy-templates';
+
+const n = (value: number, digits: number) => String(Number(value.toFixed(digits)));
+
+const getPlaceholderValues = (color: ColorData): Record<string, string> => {
+  const { r, g, b } = color.rgb;
+  const hsl = rgbToHsl(color.rgb);
+  const oklch = rgbToOklch(color.rgb);
+  const [p3r, p3g, p3b] = rgbToDisplayP3(color.rgb);
+
+  return {
+    hex: color.hex.toLowerCase(),
+    HEX: color.hex.slice(1).toUpperCase(),
+    r: String(r),
+    g: String(g),
+    b: String(b),
+    rf: n(r / 255, 3),
+    gf: n(g / 255, 3),
+    bf: n(b / 255, 3),
+    h: n(hsl.h, 0),
+    s: n(hsl.s, 0),
+    l: n(hsl.l, 0),
+    okl: n(oklch.l * 100, 2),
+    okc: n(oklch.c, 4),
+    okh: n(oklch.h, 2),
+    p3r: n(p3r, 4),
+    p3g: n(p3g, 4),
+    p3b: n(p3b, 4),
+  };
+};
+
+/** Fill `{placeholder}` tokens; unknown tokens are left as written. */
+export const renderTemplate = (template: string, color: ColorData): string => {
+  const values = getPlaceholderValues(color);
+  return template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+};
+
+interface StoredTemplates {
+  custom: CopyTemplate[];
+  defaultId: string;
+}
+
+const DEFAULT_STORED_TEMPLATES: StoredTemplates = { custom: [], defaultId: DEFAULT_TEMPLATE_ID };
+
+const isCopyTemplate = (value: unknown): value is CopyTemplate => {
+  const template = value as CopyTemplate | null;
+  return typeof template?.id === 'string' && typeof template.label === 'string' && typeof template.template === 'string';
+};
+
+export const loadCopyTemplates = (): StoredTemplates => {
+  try {
+    const stored = { ...DEFAULT_STORED_TEMPLATES, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') };
+    // Older or hand-edited values may hold anything; keep only well-formed templates
+    return {
+      custom: Array.isArray(stored.custom) ? stored.custom.filter(isCopyTemplate) : [],
+      defaultId: typeof stored.defaultId === 'string' ? stored.defaultId : DEFAULT_TEMPLATE_ID,
+    };
+  } catch {
+    return DEFAULT_STORED_TEMPLATES;
+  }
+};
+
+export const saveCopyTemplates = (templates: StoredTemplates) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Failed to save copy templates:', error);
+  }
+};
@@ -0,0 +1,71 @@
+const DB_NAME = 'pixel-picker';
+const DB_VERSION = 2;
+
+// Object stores, each keyed by the records' `id`
+export type StoreName = 'captures' | 'palettes';
+
+const STORES: StoreName[] = ['captures', 'palettes'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside when another tab upgrades the schema; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+    // An older tab still holds the previous version open and won't let go
+    request.onblocked = () => {
+      databasePromise = null;
+      reject(new Error('Saved data is in use by another tab of this app; close it and reload'));
+    };
+  });
+  return databasePromise;
+};
+
+const run = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = operation(transaction.objectStore(store));
+    // Resolve on commit so callers never see a write that later rolls back
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAllRecords = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+
+export const putRecord = async <T>(store: StoreName, record: T) => {
+  await run(store, 'readwrite', objectStore => objectStore.put(record));
+};
+
+export const deleteRecord = async (store: StoreName, id: string) => {
+  await run(store, 'readwrite', objectStore => objectStore.delete(id));
+};
+
+export const clearRecords = async (store: StoreName) => {
+  await run(store, 'readwrite', objectStore => objectStore.clear());
+};
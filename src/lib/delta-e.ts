@@ -0,0 +1,170 @@
+import { hexToRgb, Lab, rgbToLab } from '@/lib/color-conversions';
+import { RGB } from '@/lib/sampling';
+
+export type DeltaEMethod = 'cie76' | 'cie94' | 'ciede2000' | 'cmc21' | 'cmc11';
+
+export const DELTA_E_METHODS: { id: DeltaEMethod; label: string }[] = [
+  { id: 'cie76', label: 'ΔE 76' },
+  { id: 'cie94', label: 'ΔE 94' },
+  { id: 'ciede2000', label: 'ΔE 2000' },
+  { id: 'cmc21', label: 'ΔE CMC 2:1' },
+  { id: 'cmc11', label: 'ΔE CMC 1:1' },
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const hueAngle = (a: number, b: number) => {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return h < 0 ? h + 360 : h;
+};
+
+export const deltaE76 = (reference: Lab, sample: Lab): number => {
+  return Math.hypot(reference.l - sample.l, reference.a - sample.a, reference.b - sample.b);
+};
+
+/** CIE94 with graphic-arts weighting (kL = 1, K1 = 0.045, K2 = 0.015). */
+export const deltaE94 = (reference: Lab, sample: Lab): number => {
+  const c1 = Math.hypot(reference.a, reference.b);
+  const c2 = Math.hypot(sample.a, sample.b);
+  const dL = reference.l - sample.l;
+  const dC = c1 - c2;
+  const dH2 = Math.max(0, (reference.a - sample.a) ** 2 + (reference.b - sample.b) ** 2 - dC ** 2);
+  const sC = 1 + 0.045 * c1;
+  const sH = 1 + 0.015 * c1;
+  return Math.sqrt(dL ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2);
+};
+
+export const deltaE2000 = (reference: Lab, sample: Lab): number => {
+  const { l: l1, a: a1, b: b1 } = reference;
+  const { l: l2, a: a2, b: b2 } = sample;
+
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + 25 ** 7)));
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : hueAngle(a1p, b1);
+  const h2p = c2p === 0 ? 0 : hueAngle(a2p, b2);
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+  const lBarp = (l1 + l2) / 2;
+  const cBarp = (c1p + c2p) / 2;
+  let hBarp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarp /= 2;
+    else hBarp = hBarp < 360 ? (hBarp + 360) / 2 : (hBarp - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hBarp - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBarp)) +
+    0.32 * Math.cos(toRadians(3 * hBarp + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBarp - 63));
+  const dTheta = 30 * Math.exp(-(((hBarp - 275) / 25) ** 2));
+  const rC = 2 * Math.sqrt(cBarp ** 7 / (cBarp ** 7 + 25 ** 7));
+  const sL = 1 + (0.015 * (lBarp - 50) ** 2) / Math.sqrt(20 + (lBarp - 50) ** 2);
+  const sC = 1 + 0.045 * cBarp;
+  const sH = 1 + 0.015 * cBarp * t;
+  const rT = -Math.sin(toRadians(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 + (dCp / sC) ** 2 + (dHp / sH) ** 2 + rT * (dCp / sC) * (dHp / sH)
+  );
+};
+
+/** CMC l:c; 2:1 is the usual acceptability ratio, 1:1 perceptibility. */
+export const deltaECmc = (reference: Lab, sample: Lab, lightness = 2, chroma = 1): number => {
+  const c1 = Math.hypot(reference.a, reference.b);
+  const c2 = Math.hypot(sample.a, sample.b);
+  const h1 = hueAngle(reference.a, reference.b);
+  const dL = reference.l - sample.l;
+  const dC = c1 - c2;
+  const dH2 = Math.max(0, (reference.a - sample.a) ** 2 + (reference.b - sample.b) ** 2 - dC ** 2);
+
+  const sL = reference.l < 16 ? 0.511 : (0.040975 * reference.l) / (1 + 0.01765 * reference.l);
+  const sC = (0.0638 * c1) / (1 + 0.0131 * c1) + 0.638;
+  const f = Math.sqrt(c1 ** 4 / (c1 ** 4 + 1900));
+  const t = h1 >= 164 && h1 <= 345
+    ? 0.56 + Math.abs(0.2 * Math.cos(toRadians(h1 + 168)))
+    : 0.36 + Math.abs(0.4 * Math.cos(toRadians(h1 + 35)));
+  const sH = sC * (f * t + 1 - f);
+
+  return Math.sqrt((dL / (lightness * sL)) ** 2 + (dC / (chroma * sC)) ** 2 + dH2 / sH ** 2);
+};
+
+export const deltaELab = (method: DeltaEMethod, reference: Lab, sample: Lab): number => {
+  switch (method) {
+    case 'cie76':
+      return deltaE76(reference, sample);
+    case 'cie94':
+      return deltaE94(reference, sample);
+    case 'cmc21':
+      return deltaECmc(reference, sample, 2, 1);
+    case 'cmc11':
+      return deltaECmc(reference, sample, 1, 1);
+    default:
+      return deltaE2000(reference, sample);
+  }
+};
+
+/** Delta E between two sRGB colors; CIE94 and CMC are asymmetric, so order matters. */
+export const deltaE = (method: DeltaEMethod, reference: RGB, sample: RGB): number => {
+  return deltaELab(method, rgbToLab(reference), rgbToLab(sample));
+};
+
+export interface DeltaETarget {
+  enabled: boolean;
+  hex: string;
+  method: DeltaEMethod;
+  tolerance: number;
+}
+
+export const DEFAULT_DELTA_E_TARGET: DeltaETarget = {
+  enabled: false,
+  hex: '#808080',
+  method: 'ciede2000',
+  tolerance: 2,
+};
+
+export interface TargetDelta {
+  method: DeltaEMethod;
+  value: number;
+  pass: boolean;
+}
+
+export const getTargetDelta = (target: DeltaETarget, sample: RGB): TargetDelta | null => {
+  const reference = target.enabled ? hexToRgb(target.hex) : null;
+  if (!reference) return null;
+  const value = deltaE(target.method, reference, sample);
+  return { method: target.method, value, pass: value <= target.tolerance };
+};
+
+const STORAGE_KEY = 'pixel-picker:delta-e-target';
+
+export const loadDeltaETarget = (): DeltaETarget => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_DELTA_E_TARGET, ...stored };
+  } catch {
+    return DEFAULT_DELTA_E_TARGET;
+  }
+};
+
+export const saveDeltaETarget = (target: DeltaETarget) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(target));
+  } catch (error) {
+    console.error('Failed to save Delta E target:', error);
+  }
+};
@@ -0,0 +1,58 @@
+import { sampleRegion } from '@/lib/region-stats';
+import { ColorData, SampleRegion } from '@/lib/sampling';
+
+export type ReadableContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement;
+
+export const getFrameSize = (source: FrameSource) => {
+  return source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+};
+
+/**
+ * Draw the current frame into the canvas once so every sampling point can
+ * read from the same frame. The canvas is only resized when the frame
+ * dimensions change, since assigning width/height reallocates and clears it.
+ */
+export const drawFrame = (
+  canvas: HTMLCanvasElement,
+  source: FrameSource
+): CanvasRenderingContext2D | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const { width, height } = getFrameSize(source);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  ctx.drawImage(source, 0, 0);
+  return ctx;
+};
+
+/** Copy the current video frame into a new canvas that outlives the stream. */
+export const captureFrame = (video: HTMLVideoElement): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  return drawFrame(canvas, video) ? canvas : null;
+};
+
+export const readPointColor = (
+  ctx: ReadableContext,
+  x: number,
+  y: number,
+  region: SampleRegion
+): ColorData => {
+  const { width, height } = ctx.canvas;
+
+  // Read only the region's bounding box, clipped to the frame
+  const left = Math.max(0, x - region.radius);
+  const top = Math.max(0, y - region.radius);
+  const right = Math.min(width, x + region.radius + 1);
+  const bottom = Math.min(height, y + region.radius + 1);
+  const imageData = ctx.getImageData(left, top, right - left, bottom - top);
+
+  return sampleRegion(imageData, x - left, y - top, region);
+};
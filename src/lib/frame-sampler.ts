@@ -0,0 +1,41 @@
+import { ReadableContext, readPointColor } from '@/lib/frame-capture';
+import { ColorData, SampleRegion, TemporalSettings } from '@/lib/sampling';
+import { createSmoothingState, smoothColor, SmoothingState } from '@/lib/temporal-smoothing';
+
+export interface FramePoint {
+  id: string;
+  x: number; // source pixel column
+  y: number; // source pixel row
+  region: SampleRegion;
+  temporal: TemporalSettings;
+}
+
+export interface FrameSampler {
+  sample: (ctx: ReadableContext, points: FramePoint[], now: number) => Record<string, ColorData>;
+}
+
+/**
+ * Region statistics plus per-point temporal smoothing over one drawn frame.
+ * Shared by the sampling worker and the main-thread fallback so both paths
+ * produce identical readings.
+ */
+export const createFrameSampler = (): FrameSampler => {
+  let smoothing: Record<string, SmoothingState> = {};
+
+  return {
+    sample: (ctx, points, now) => {
+      const colors: Record<string, ColorData> = {};
+      const next: Record<string, SmoothingState> = {};
+
+      points.forEach(point => {
+        const state = smoothing[point.id] ?? createSmoothingState();
+        colors[point.id] = smoothColor(state, readPointColor(ctx, point.x, point.y, point.region), point.temporal, now);
+        next[point.id] = state;
+      });
+
+      // Rebuilding the map drops state for points that were removed
+      smoothing = next;
+      return colors;
+    },
+  };
+};
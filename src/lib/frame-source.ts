@@ -0,0 +1,125 @@
+export type SourceKind = 'camera' | 'screen' | 'image' | 'video';
+
+export interface SourceInfo {
+  kind: SourceKind;
+  label: string;
+}
+
+export type FileSourceKind = Extract<SourceKind, 'image' | 'video'>;
+
+// HEIC/HEIF only decode where the browser supports them natively (Safari)
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'heic', 'heif'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'm4v'];
+
+export const ACCEPTED_FILE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'video/mp4',
+  'video/webm',
+  ...IMAGE_EXTENSIONS.map(extension => `.${extension}`),
+  ...VIDEO_EXTENSIONS.map(extension => `.${extension}`),
+].join(',');
+
+// Video files don't expose their frame rate, so stepping assumes 30 fps
+export const FRAME_STEP_SECONDS = 1 / 30;
+
+/**
+ * Constraints for getDisplayMedia. Pixel-exact capture asks for the full
+ * native resolution and, where supported, disables the browser's rescaling.
+ */
+export const buildScreenConstraints = (pixelExact: boolean): MediaTrackConstraints => {
+  if (!pixelExact) return { frameRate: { ideal: 30 } };
+
+  const constraints: MediaTrackConstraints & { resizeMode?: string } = {
+    width: { ideal: window.screen.width * window.devicePixelRatio },
+    height: { ideal: window.screen.height * window.devicePixelRatio },
+    frameRate: { ideal: 30 },
+    resizeMode: 'none',
+  };
+  return constraints;
+};
+
+export const getFileSourceKind = (file: File): FileSourceKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+
+  // Some platforms leave HEIC and other files without a MIME type
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  return null;
+};
+
+const isDataImageUrl = (text: string) => /^data:image\/[\w.+-]+[;,]/i.test(text);
+
+/**
+ * The image in a paste: a copied image or screenshot, or the text of a data
+ * URL or absolute same-origin image URL. Cross-origin URLs are rejected as their
+ * pixels can't be read back from a canvas.
+ */
+export const getPastedImage = async (data: DataTransfer): Promise<Blob | null> => {
+  const file = Array.from(data.files).find(candidate => getFileSourceKind(candidate) === 'image');
+  if (file) return file;
+
+  const text = (data.getData('text/uri-list') || data.getData('text/plain')).trim().split(/\r?\n/)[0];
+  if (!text) return null;
+
+  if (!isDataImageUrl(text)) {
+    // Only absolute links count; other pasted text is not an image reference
+    if (!/^https?:\/\//i.test(text)) return null;
+    let url: URL;
+    try {
+      url = new URL(text);
+    } catch {
+      return null;
+    }
+    if (url.origin !== window.location.origin) {
+      throw new Error('Only images from this site or data URLs can be pasted');
+    }
+  }
+
+  const response = await fetch(text);
+  if (!response.ok) throw new Error(`Unable to load the pasted image (${response.status})`);
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) throw new Error('The pasted link is not an image');
+  return blob;
+};
+
+const loadImageElement = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('This image format is not supported by the browser'));
+    image.src = url;
+  });
+
+/**
+ * Decode an image file into a canvas at its full resolution, falling back to
+ * an <img> element for formats createImageBitmap can't read.
+ */
+export const decodeImage = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+  } catch {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = await loadImageElement(url);
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      return canvas;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { hexToRgb, hslToRgb } from '@/lib/color-conversions';
+import { DEFAULT_CODE_EXPORT_OPTIONS, toCssVariables, toScssMap, toTailwindColors } from '@/lib/palette-code';
+import { createPalette, createSwatch } from '@/lib/palettes';
+import { rgbToHex } from '@/lib/sampling';
+
+const swatch = (name: string, hex: string) => createSwatch(name, hex, hexToRgb(hex));
+
+const palette = createPalette('Brand', [
+  swatch('Primary', '#12abef'),
+  swatch('Deep Navy', '#0b1d3a'),
+  swatch('Salmon', '#fa8072'),
+  swatch('Cream', '#f5e6d3'),
+  swatch('Black', '#000000'),
+  swatch('White', '#ffffff'),
+]);
+
+// `--name: H S% L%;` declarations, converted back to hex
+const readCssVariables = (css: string) =>
+  [...css.matchAll(/--([\w-]+): ([\d.]+) ([\d.]+)% ([\d.]+)%;/g)].map(([, name, h, s, l]) => {
+    const { r, g, b } = hslToRgb({ h: Number(h), s: Number(s), l: Number(l) });
+    return { name, hex: rgbToHex(r, g, b) };
+  });
+
+describe('toCssVariables', () => {
+  it('writes channels that convert back to the original colors', () => {
+    const variables = readCssVariables(toCssVariables(palette, DEFAULT_CODE_EXPORT_OPTIONS));
+
+    expect(variables.map(variable => variable.hex)).toEqual(palette.swatches.map(({ hex }) => hex));
+  });
+
+  it('uses the index.css channel style', () => {
+    const single = createPalette('Destructive', [swatch('Destructive', '#ef4444')]);
+
+    expect(toCssVariables(single, DEFAULT_CODE_EXPORT_OPTIONS)).toContain('--destructive: 0 84.2% 60.2%;');
+  });
+});
+
+describe('toTailwindColors', () => {
+  it('reads every CSS variable', () => {
+    const names = readCssVariables(toCssVariables(palette, DEFAULT_CODE_EXPORT_OPTIONS)).map(({ name }) => name);
+    const tailwind = toTailwindColors(palette, DEFAULT_CODE_EXPORT_OPTIONS);
+
+    names.forEach(name => expect(tailwind).toContain(`'${name}': 'hsl(var(--${name}))'`));
+  });
+});
+
+describe('toScssMap', () => {
+  it('prefixes map names that would start with a digit', () => {
+    expect(toScssMap({ ...palette, name: '2024 Brand' }, DEFAULT_CODE_EXPORT_OPTIONS)).toMatch(/^\$palette-2024-brand: \(/);
+    expect(toScssMap(palette, DEFAULT_CODE_EXPORT_OPTIONS)).toMatch(/^\$brand: \(/);
+  });
+});
@@ -0,0 +1,110 @@
+import { rgbToHsl } from '@/lib/color-conversions';
+import { Palette, slugify } from '@/lib/palettes';
+import { RGB } from '@/lib/sampling';
+
+export type CodeFormatId = 'css' | 'scss' | 'tailwind' | 'dtcg';
+
+export type TokenNaming = 'slug' | 'index';
+
+export interface CodeExportOptions {
+  naming: TokenNaming;
+  prefix: string;
+}
+
+export interface CodeExporter {
+  id: CodeFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  generate: (palette: Palette, options: CodeExportOptions) => string;
+}
+
+export const DEFAULT_CODE_EXPORT_OPTIONS: CodeExportOptions = { naming: 'slug', prefix: '' };
+
+/** Token name per swatch: slugged swatch name (or its position) behind an optional prefix, made unique. */
+export const getTokenNames = (palette: Palette, { naming, prefix }: CodeExportOptions): string[] => {
+  const prefixSlug = slugify(prefix);
+  const used = new Set<string>();
+  return palette.swatches.map((swatch, index) => {
+    const base = (naming === 'slug' && slugify(swatch.name)) || (prefixSlug ? `${index + 1}` : `color-${index + 1}`);
+    const name = prefixSlug ? `${prefixSlug}-${base}` : base;
+    let unique = name;
+    for (let n = 2; used.has(unique); n++) unique = `${name}-${n}`;
+    used.add(unique);
+    return unique;
+  });
+};
+
+// One decimal, as in index.css, is the least that maps back to every 8-bit color
+const channel = (value: number) => Number(value.toFixed(1));
+
+// Same `H S% L%` channel style as the variables in index.css
+const toHslChannels = (rgb: RGB) => {
+  const { h, s, l } = rgbToHsl(rgb);
+  return `${channel(h)} ${channel(s)}% ${channel(l)}%`;
+};
+
+const paletteSlug = (palette: Palette) => slugify(palette.name) || 'palette';
+
+export const toCssVariables = (palette: Palette, options: CodeExportOptions): string => {
+  const names = getTokenNames(palette, options);
+  return [
+    `/* ${palette.name.replace(/\*\//g, '* /')} */`,
+    ':root {',
+    ...palette.swatches.map((swatch, index) => `  --${names[index]}: ${toHslChannels(swatch.rgb)}; /* ${swatch.hex} */`),
+    '}',
+    '',
+  ].join('\n');
+};
+
+// Sass variable names can't start with a digit
+const scssIdentifier = (slug: string) => (/^\d/.test(slug) ? `palette-${slug}` : slug);
+
+export const toScssMap = (palette: Palette, options: CodeExportOptions): string => {
+  const names = getTokenNames(palette, options);
+  return [
+    `$${scssIdentifier(paletteSlug(palette))}: (`,
+    ...palette.swatches.map((swatch, index) => `  '${names[index]}': ${swatch.hex},`),
+    ');',
+    '',
+  ].join('\n');
+};
+
+/** theme.extend.colors entries in tailwind.config.ts style, reading the CSS variables export. */
+export const toTailwindColors = (palette: Palette, options: CodeExportOptions): string => {
+  const names = getTokenNames(palette, options);
+  return [
+    '// tailwind.config.ts, alongside the CSS variables export',
+    'theme: {',
+    '\textend: {',
+    '\t\tcolors: {',
+    ...names.map((name, index) =>
+      `\t\t\t'${name}': 'hsl(var(--${name}))'${index < names.length - 1 ? ',' : ''}`
+    ),
+    '\t\t}',
+    '\t}',
+    '}',
+    '',
+  ].join('\n');
+};
+
+/** W3C Design Tokens Community Group format, one color group per palette. */
+export const toDesignTokens = (palette: Palette, options: CodeExportOptions): string => {
+  const names = getTokenNames(palette, options);
+  const group: Record<string, unknown> = { $type: 'color' };
+  if (palette.note.trim()) group.$description = palette.note.trim();
+  palette.swatches.forEach((swatch, index) => {
+    group[names[index]] = {
+      $value: swatch.hex,
+      ...(swatch.note.trim() ? { $description: swatch.note.trim() } : {}),
+    };
+  });
+  return `${JSON.stringify({ [paletteSlug(palette)]: group }, null, 2)}\n`;
+};
+
+export const CODE_EXPORTERS: CodeExporter[] = [
+  { id: 'css', label: 'CSS Variables', extension: 'css', mimeType: 'text/css', generate: toCssVariables },
+  { id: 'scss', label: 'SCSS Map', extension: 'scss', mimeType: 'text/x-scss', generate: toScssMap },
+  { id: 'tailwind', label: 'Tailwind Colors', extension: 'ts', mimeType: 'text/plain', generate: toTailwindColors },
+  { id: 'dtcg', label: 'Design Tokens (W3C)', extension: 'tokens.json', mimeType: 'application/json', generate: toDesignTokens },
+];
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { hexToRgb } from '@/lib/color-conversions';
+import { getExportFilename, PALETTE_EXPORTERS, PaletteFormatId, toProcreate } from '@/lib/palette-export';
+import { parsePaletteFile } from '@/lib/palette-import';
+import { createPalette, createSwatch } from '@/lib/palettes';
+import { rgbToHex } from '@/lib/sampling';
+
+const swatch = (name: string, hex: string) => createSwatch(name, hex, hexToRgb(hex));
+
+// Names with spaces, punctuation and non-ASCII text to exercise each format's escaping
+const palette = createPalette('Brand 2024', [
+  swatch('Primary', '#12abef'),
+  swatch('Deep Navy', '#0b1d3a'),
+  swatch('Coral, "warm"', '#fa8072'),
+  swatch('Café crème', '#f5e6d3'),
+  swatch('Black', '#000000'),
+  swatch('White', '#ffffff'),
+]);
+
+// Entries of a stored (uncompressed) zip, found through its central directory
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries: Record<string, Uint8Array> = {};
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(bytes.slice(offset + 46, offset + 46 + nameLength));
+    const local = view.getUint32(offset + 42, true);
+    expect(view.getUint16(local + 8, true)).toBe(0); // stored
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries[name] = bytes.slice(start, start + size);
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+// HSB channels in 0-1, as Procreate stores them
+const hsbToHex = (h: number, s: number, v: number) => {
+  const channel = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return Math.round(255 * (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))));
+  };
+  return rgbToHex(channel(5), channel(3), channel(1));
+};
+
+describe('toProcreate', () => {
+  it('zips Swatches.json with HSB values that convert back to the palette', () => {
+    const entries = readZip(toProcreate(palette));
+    const [swatches] = JSON.parse(new TextDecoder().decode(entries['Swatches.json']));
+
+    expect(swatches.name).toBe(palette.name);
+    expect(
+      swatches.swatches.map(({ hue, saturation, brightness }) => hsbToHex(hue, saturation, brightness))
+    ).toEqual(palette.swatches.map(({ hex }) => hex));
+  });
+
+  it('keeps the first 30 colors, the most Procreate shows', () => {
+    const large = createPalette('Large', Array.from({ length: 40 }, (_, index) => swatch(`${index}`, '#808080')));
+    const [swatches] = JSON.parse(new TextDecoder().decode(readZip(toProcreate(large))['Swatches.json']));
+
+    expect(swatches.swatches).toHaveLength(30);
+  });
+});
+
+describe('export → import round trips', () => {
+  const roundTrip = (id: PaletteFormatId) => {
+    const exporter = PALETTE_EXPORTERS.find(candidate => candidate.id === id);
+    const output = exporter.export(palette);
+    const bytes = typeof output === 'string' ? new TextEncoder().encode(output) : output;
+    return parsePaletteFile(getExportFilename(palette, exporter.extension), bytes.slice().buffer);
+  };
+
+  it.each<PaletteFormatId>(['ase', 'aco', 'gpl', 'csv', 'sketch'])('%s keeps every color and name', id => {
+    const result = roundTrip(id);
+
+    expect(result.errors).toEqual([]);
+    expect(result.colors.map(({ name, hex }) => ({ name, hex }))).toEqual(
+      palette.swatches.map(({ name, hex }) => ({ name, hex }))
+    );
+  });
+
+  it.each<PaletteFormatId>(['ase', 'gpl'])('%s keeps the palette name', id => {
+    expect(roundTrip(id).name).toBe(palette.name);
+  });
+
+  it('paint-net keeps every color and the palette name', () => {
+    const result = roundTrip('paint-net');
+
+    expect(result.format).toBe('paint-net');
+    expect(result.errors).toEqual([]);
+    expect(result.name).toBe(palette.name);
+    expect(result.colors.map(color => color.hex)).toEqual(palette.swatches.map(({ hex }) => hex));
+  });
+});
@@ -0,0 +1,182 @@
+import { rgbToHsv } from '@/lib/color-conversions';
+import { toCsvField } from '@/lib/csv';
+import { Palette, slugify } from '@/lib/palettes';
+import { createZip } from '@/lib/zip';
+
+export type PaletteFormatId = 'ase' | 'aco' | 'gpl' | 'procreate' | 'paint-net' | 'sketch' | 'csv';
+
+export interface PaletteExporter {
+  id: PaletteFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  maxColors?: number; // the target app ignores anything past this
+  export: (palette: Palette) => Uint8Array | string;
+}
+
+// Big-endian byte writer shared by the binary Adobe formats
+const createWriter = () => {
+  const bytes: number[] = [];
+  const float = new DataView(new ArrayBuffer(4));
+  return {
+    u16: (value: number) => bytes.push((value >> 8) & 255, value & 255),
+    u32: (value: number) => bytes.push((value >>> 24) & 255, (value >>> 16) & 255, (value >>> 8) & 255, value & 255),
+    f32: (value: number) => {
+      float.setFloat32(0, value);
+      bytes.push(float.getUint8(0), float.getUint8(1), float.getUint8(2), float.getUint8(3));
+    },
+    ascii: (text: string) => bytes.push(...Array.from(text, c => c.charCodeAt(0))),
+    // UTF-16BE followed by a null terminator
+    utf16: (text: string) => {
+      for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        bytes.push((code >> 8) & 255, code & 255);
+      }
+      bytes.push(0, 0);
+    },
+    bytes: () => Uint8Array.from(bytes),
+  };
+};
+
+/** Adobe Swatch Exchange: one group named after the palette, RGB floats per swatch. */
+export const toAse = (palette: Palette): Uint8Array => {
+  const writer = createWriter();
+  const nameSize = (name: string) => 2 + (name.length + 1) * 2;
+
+  writer.ascii('ASEF');
+  writer.u16(1);
+  writer.u16(0);
+  writer.u32(palette.swatches.length + 2);
+
+  writer.u16(0xc001); // group start
+  writer.u32(nameSize(palette.name));
+  writer.u16(palette.name.length + 1);
+  writer.utf16(palette.name);
+
+  palette.swatches.forEach(({ name, rgb }) => {
+    writer.u16(0x0001); // color entry
+    writer.u32(nameSize(name) + 4 + 12 + 2);
+    writer.u16(name.length + 1);
+    writer.utf16(name);
+    writer.ascii('RGB ');
+    writer.f32(rgb.r / 255);
+    writer.f32(rgb.g / 255);
+    writer.f32(rgb.b / 255);
+    writer.u16(2); // normal (not global or spot)
+  });
+
+  writer.u16(0xc002); // group end
+  writer.u32(0);
+  return writer.bytes();
+};
+
+/** Photoshop swatches: a version 1 section for old readers, then version 2 with names. */
+export const toAco = (palette: Palette): Uint8Array => {
+  const writer = createWriter();
+  const writeColor = ({ r, g, b }: { r: number; g: number; b: number }) => {
+    writer.u16(0); // RGB color space, 16 bits per channel
+    writer.u16(r * 257);
+    writer.u16(g * 257);
+    writer.u16(b * 257);
+    writer.u16(0);
+  };
+
+  writer.u16(1);
+  writer.u16(palette.swatches.length);
+  palette.swatches.forEach(swatch => writeColor(swatch.rgb));
+
+  writer.u16(2);
+  writer.u16(palette.swatches.length);
+  palette.swatches.forEach(swatch => {
+    writeColor(swatch.rgb);
+    writer.u32(swatch.name.length + 1);
+    writer.utf16(swatch.name);
+  });
+  return writer.bytes();
+};
+
+/** GIMP and Inkscape palette; the palette note becomes comment lines. */
+export const toGpl = (palette: Palette): string => {
+  const pad = (value: number) => String(value).padStart(3, ' ');
+  const notes = palette.note.split('\n').filter(line => line.trim()).map(line => `# ${line}`);
+  return [
+    'GIMP Palette',
+    `Name: ${palette.name}`,
+    'Columns: 0',
+    '#',
+    ...notes,
+    ...palette.swatches.map(({ name, rgb }) => `${pad(rgb.r)} ${pad(rgb.g)} ${pad(rgb.b)}\t${name}`),
+    '',
+  ].join('\n');
+};
+
+const PROCREATE_MAX_COLORS = 30;
+
+/** Procreate .swatches: a zip holding Swatches.json with HSB values in 0-1. */
+export const toProcreate = (palette: Palette): Uint8Array => {
+  const swatches = palette.swatches.slice(0, PROCREATE_MAX_COLORS).map(({ rgb }) => {
+    const { h, s, v } = rgbToHsv(rgb);
+    return { hue: h / 360, saturation: s / 100, brightness: v / 100, alpha: 1, colorSpace: 0 };
+  });
+  const json = JSON.stringify([{ name: palette.name, swatches }]);
+  return createZip([{ name: 'Swatches.json', data: new TextEncoder().encode(json) }]);
+};
+
+const PAINT_NET_MAX_COLORS = 96;
+
+/** Paint.NET palette: one AARRGGBB value per line after the comment header. */
+export const toPaintNet = (palette: Palette): string => {
+  const swatches = palette.swatches.slice(0, PAINT_NET_MAX_COLORS);
+  return [
+    '; paint.net Palette File',
+    `; Palette Name: ${palette.name}`,
+    `; Colors: ${swatches.length}`,
+    ...swatches.map(swatch => `FF${swatch.hex.slice(1).toUpperCase()}`),
+    '',
+  ].join('\n');
+};
+
+/** Sketch Palettes plugin JSON with channels in 0-1. */
+export const toSketch = (palette: Palette): string => {
+  const colors = palette.swatches.map(({ name, rgb }) => ({
+    name,
+    red: rgb.r / 255,
+    green: rgb.g / 255,
+    blue: rgb.b / 255,
+    alpha: 1,
+  }));
+  return JSON.stringify({ compatibleVersion: '2.0', pluginVersion: '2.22', colors }, null, 2);
+};
+
+export const toPaletteCsv = (palette: Palette): string => {
+  const header = ['name', 'hex', 'r', 'g', 'b', 'note'];
+  const rows = palette.swatches.map(({ name, hex, rgb, note }) => [name, hex, rgb.r, rgb.g, rgb.b, note]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n');
+};
+
+export const PALETTE_EXPORTERS: PaletteExporter[] = [
+  { id: 'ase', label: 'Adobe Swatch Exchange', extension: 'ase', mimeType: 'application/octet-stream', export: toAse },
+  { id: 'aco', label: 'Photoshop Swatches', extension: 'aco', mimeType: 'application/octet-stream', export: toAco },
+  { id: 'gpl', label: 'GIMP / Inkscape', extension: 'gpl', mimeType: 'text/plain', export: toGpl },
+  {
+    id: 'procreate',
+    label: 'Procreate',
+    extension: 'swatches',
+    mimeType: 'application/zip',
+    maxColors: PROCREATE_MAX_COLORS,
+    export: toProcreate,
+  },
+  {
+    id: 'paint-net',
+    label: 'Paint.NET',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    maxColors: PAINT_NET_MAX_COLORS,
+    export: toPaintNet,
+  },
+  { id: 'sketch', label: 'Sketch Palette', extension: 'sketchpalette', mimeType: 'application/json', export: toSketch },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv', export: toPaletteCsv },
+];
+
+export const getExportFilename = (palette: Palette, extension: string) =>
+  `${slugify(palette.name) || 'palette'}.${extension}`;
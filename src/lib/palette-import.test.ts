@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { hexToRgb } from '@/lib/color-conversions';
+import { DEFAULT_CODE_EXPORT_OPTIONS, getTokenNames, toCssVariables } from '@/lib/palette-code';
+import { toAco, toPaintNet } from '@/lib/palette-export';
+import { parsePaletteFile } from '@/lib/palette-import';
+import { createPalette, createSwatch } from '@/lib/palettes';
+
+const swatch = (name: string, hex: string) => createSwatch(name, hex, hexToRgb(hex));
+
+const palette = createPalette('Brand', [
+  swatch('Primary', '#12abef'),
+  swatch('Deep Navy', '#0b1d3a'),
+  swatch('Salmon', '#fa8072'),
+  swatch('Cream', '#f5e6d3'),
+]);
+
+const parse = (fileName: string, content: string | Uint8Array) => {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  return parsePaletteFile(fileName, bytes.slice().buffer);
+};
+
+describe('CSS custom properties', () => {
+  it('imports the CSS variables export unchanged', () => {
+    const result = parse('brand.css', toCssVariables(palette, DEFAULT_CODE_EXPORT_OPTIONS));
+
+    expect(result.errors).toEqual([]);
+    expect(result.colors.map(({ name, hex }) => ({ name, hex }))).toEqual(
+      getTokenNames(palette, DEFAULT_CODE_EXPORT_OPTIONS).map((name, index) => ({ name, hex: palette.swatches[index].hex }))
+    );
+  });
+
+  it('skips properties that are not colors and reports unreadable colors', () => {
+    const css = ':root { --radius: 0.5rem; --font: Inter, sans-serif; --primary: #12abef; --accent: rgb(1 2); }';
+    const result = parse('theme.css', css);
+
+    expect(result.colors.map(({ name, hex }) => ({ name, hex }))).toEqual([{ name: 'primary', hex: '#12abef' }]);
+    expect(result.errors).toEqual(['--accent: "rgb(1 2)" is not a supported color']);
+  });
+});
+
+describe('Photoshop ACO', () => {
+  const aco = toAco(palette);
+  // Version 1 header and four 10-byte colors precede the named version 2 section
+  const namedStart = 4 + palette.swatches.length * 10;
+
+  it('keeps the colors read before a cut in the unnamed section', () => {
+    const result = parse('brand.aco', aco.slice(0, 4 + 2 * 10 + 5));
+
+    expect(result.colors.map(color => color.hex)).toEqual(['#12abef', '#0b1d3a']);
+    expect(result.errors).toEqual(['File ended unexpectedly; it may be truncated']);
+  });
+
+  it('falls back to the unnamed copy when the named section is cut short', () => {
+    const result = parse('brand.aco', aco.slice(0, namedStart + 20));
+
+    expect(result.colors.map(color => color.hex)).toEqual(palette.swatches.map(({ hex }) => hex));
+    expect(result.errors).toEqual(['File ended unexpectedly; it may be truncated']);
+  });
+});
+
+describe('Paint.NET detection', () => {
+  it('reads Paint.NET content whatever the extension', () => {
+    expect(parse('brand.pal', toPaintNet(palette)).format).toBe('paint-net');
+    expect(parse('brand.txt', 'FF12ABEF\nFF0B1D3A\n').format).toBe('paint-net');
+  });
+
+  it('leaves other .txt files to the CSV parser', () => {
+    const result = parse('colors.txt', 'name,hex\nPrimary,#12abef\n');
+
+    expect(result.format).toBe('csv');
+    expect(result.colors.map(({ name, hex }) => ({ name, hex }))).toEqual([{ name: 'Primary', hex: '#12abef' }]);
+  });
+
+  it('reports malformed lines in a Paint.NET file', () => {
+    const result = parse('brand.txt', '; paint.net Palette File\nFF12ABEF\nnot a color\n');
+
+    expect(result.colors.map(color => color.hex)).toEqual(['#12abef']);
+    expect(result.errors).toEqual(['Line 3: expected an AARRGGBB hex color']);
+  });
+});
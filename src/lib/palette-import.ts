@@ -0,0 +1,479 @@
+import { hexToRgb, hslToRgb, labToRgb, rgbToLab } from '@/lib/color-conversions';
+import { CSS_COLOR_NAMES } from '@/lib/color-name-lists';
+import { parseCsv } from '@/lib/csv';
+import { deltaE2000 } from '@/lib/delta-e';
+import { RGB, rgbToHex } from '@/lib/sampling';
+
+export type PaletteImportFormat = 'ase' | 'aco' | 'gpl' | 'paint-net' | 'csv' | 'json' | 'css';
+
+export interface ImportedColor {
+  name: string;
+  hex: string;
+  rgb: RGB;
+  note: string;
+}
+
+export interface PaletteImportResult {
+  format: PaletteImportFormat;
+  name: string;
+  colors: ImportedColor[];
+  errors: string[]; // entries that were skipped, with the reason
+}
+
+export interface DuplicateMatch {
+  index: number; // earlier color it duplicates
+  deltaE: number; // CIEDE2000
+}
+
+export const PALETTE_IMPORT_ACCEPT = '.ase,.aco,.gpl,.csv,.json,.css,.txt,.sketchpalette';
+
+// Below a ΔE 2000 of about 1 most viewers can't tell two colors apart
+export const DEFAULT_DUPLICATE_THRESHOLD = 1;
+
+type ParsedPalette = Omit<PaletteImportResult, 'format' | 'name'> & { name?: string };
+
+const TRUNCATED = 'File ended unexpectedly; it may be truncated';
+
+// Binary readers throw a RangeError when a file is cut short
+const isTruncation = (error: unknown) => {
+  if (error instanceof RangeError) return true;
+  throw error;
+};
+
+const clampByte = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+const toColor = (name: string, { r, g, b }: RGB, note = ''): ImportedColor => {
+  const rgb = { r: clampByte(r), g: clampByte(g), b: clampByte(b) };
+  return { name, hex: rgbToHex(rgb.r, rgb.g, rgb.b), rgb, note };
+};
+
+const hsvToRgb = (h: number, s: number, v: number): RGB => {
+  // HSB is reached through HSL, which the conversions module already handles
+  const l = v * (1 - s / 2);
+  const sl = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+  return hslToRgb({ h, s: sl * 100, l: l * 100 });
+};
+
+const cssNames = new Map(CSS_COLOR_NAMES);
+
+/** Parse a CSS color: hex, rgb(), hsl(), a named color, or bare `H S% L%` channels as in index.css. */
+export const parseCssColor = (value: string): RGB | null => {
+  const text = value.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(text);
+  if (hex) return hexToRgb(hex[1].length <= 4 ? hex[1].slice(0, 3) : hex[1].slice(0, 6));
+
+  const named = cssNames.get(text);
+  if (named) return hexToRgb(named);
+
+  const fn = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(text);
+  const args = (fn ? fn[2] : text).split(/[\s,/]+/).filter(Boolean);
+  const number = (arg: string | undefined, percentScale: number) => {
+    if (arg === undefined) return NaN;
+    return arg.endsWith('%') ? parseFloat(arg) * percentScale : parseFloat(arg.replace(/deg$/, ''));
+  };
+
+  if (fn?.[1].startsWith('rgb')) {
+    const [r, g, b] = args.slice(0, 3).map(arg => number(arg, 2.55));
+    return [r, g, b].every(Number.isFinite) ? { r: clampByte(r), g: clampByte(g), b: clampByte(b) } : null;
+  }
+
+  // hsl() arguments, or the bare channel form which requires the % signs
+  if (fn || (args.length === 3 && args[1].endsWith('%') && args[2].endsWith('%'))) {
+    const [h, s, l] = [number(args[0], 3.6), number(args[1], 1), number(args[2], 1)];
+    if (![h, s, l].every(Number.isFinite)) return null;
+    return hslToRgb({ h: ((h % 360) + 360) % 360, s: Math.min(100, Math.max(0, s)), l: Math.min(100, Math.max(0, l)) });
+  }
+
+  return null;
+};
+
+// Big-endian reader for the binary Adobe formats; reading past the end throws a RangeError
+const createReader = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  const advance = (size: number) => {
+    offset += size;
+    return offset - size;
+  };
+  return {
+    get offset() {
+      return offset;
+    },
+    set offset(value: number) {
+      offset = value;
+    },
+    remaining: () => bytes.length - offset,
+    u16: () => view.getUint16(advance(2)),
+    u32: () => view.getUint32(advance(4)),
+    f32: () => view.getFloat32(advance(4)),
+    ascii: (length: number) => String.fromCharCode(...bytes.slice(advance(length), offset)),
+    // UTF-16BE with the terminator counted in `length`
+    utf16: (length: number) => {
+      let text = '';
+      for (let i = 0; i < length; i++) {
+        const code = view.getUint16(advance(2));
+        if (code) text += String.fromCharCode(code);
+      }
+      return text;
+    },
+  };
+};
+
+const parseAse = (bytes: Uint8Array): ParsedPalette => {
+  const reader = createReader(bytes);
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  let name: string | undefined;
+
+  if (reader.ascii(4) !== 'ASEF') return { colors, errors: ['Not an Adobe Swatch Exchange file'] };
+  reader.offset += 4; // version
+
+  const readBlock = () => {
+    const type = reader.u16();
+    const length = reader.u32();
+    const end = reader.offset + length;
+
+    if (type === 0xc001) {
+      name ??= reader.utf16(reader.u16()) || undefined;
+    } else if (type === 0x0001) {
+      const colorName = reader.utf16(reader.u16()) || `Color ${colors.length + errors.length + 1}`;
+      const model = reader.ascii(4).trim();
+      if (model === 'RGB') {
+        const [r, g, b] = [reader.f32(), reader.f32(), reader.f32()];
+        colors.push(toColor(colorName, { r: r * 255, g: g * 255, b: b * 255 }));
+      } else if (model === 'Gray') {
+        const gray = reader.f32() * 255;
+        colors.push(toColor(colorName, { r: gray, g: gray, b: gray }));
+      } else if (model === 'CMYK') {
+        const [c, m, y, k] = [reader.f32(), reader.f32(), reader.f32(), reader.f32()];
+        colors.push(toColor(colorName, { r: 255 * (1 - c) * (1 - k), g: 255 * (1 - m) * (1 - k), b: 255 * (1 - y) * (1 - k) }));
+      } else if (model === 'LAB') {
+        const [l, a, b] = [reader.f32(), reader.f32(), reader.f32()];
+        colors.push(toColor(colorName, labToRgb({ l: l * 100, a, b })));
+      } else {
+        errors.push(`Swatch "${colorName}": unsupported color model "${model}"`);
+      }
+    }
+    // Skip whatever this block holds beyond what was read, including unknown block types
+    reader.offset = end;
+  };
+
+  try {
+    const blocks = reader.u32();
+    for (let block = 0; block < blocks; block++) readBlock();
+  } catch (error) {
+    if (isTruncation(error)) errors.push(TRUNCATED);
+  }
+
+  return { name, colors, errors };
+};
+
+const parseAco = (bytes: Uint8Array): ParsedPalette => {
+  const reader = createReader(bytes);
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+
+  const readColor = (): RGB | string => {
+    const space = reader.u16();
+    const [w, x, y, z] = [reader.u16(), reader.u16(), reader.u16(), reader.u16()];
+    switch (space) {
+      case 0:
+        return { r: w / 257, g: x / 257, b: y / 257 };
+      case 1:
+        return hsvToRgb((w / 65535) * 360, x / 65535, y / 65535);
+      case 2:
+        // CMYK is stored as 65535 minus the ink amount
+        return { r: (255 * w * z) / 65535 ** 2, g: (255 * x * z) / 65535 ** 2, b: (255 * y * z) / 65535 ** 2 };
+      case 7: {
+        const signed = (value: number) => (value << 16) >> 16;
+        return labToRgb({ l: w / 100, a: signed(x) / 100, b: signed(y) / 100 });
+      }
+      case 8: {
+        const gray = 255 * (1 - w / 10000);
+        return { r: gray, g: gray, b: gray };
+      }
+      default:
+        return `unsupported color space ${space}`;
+    }
+  };
+
+  // Fills `section` as it goes, so a truncated file keeps the entries read before the cut
+  const readSection = (named: boolean, section: (ImportedColor | string)[]) => {
+    const count = reader.u16();
+    for (let i = 0; i < count; i++) {
+      const rgb = readColor();
+      const name = named ? reader.utf16(reader.u32()) : '';
+      const label = name || `Color ${i + 1}`;
+      section.push(typeof rgb === 'string' ? `Swatch "${label}": ${rgb}` : toColor(label, rgb));
+    }
+  };
+
+  let section: (ImportedColor | string)[] = [];
+  try {
+    const version = reader.u16();
+    if (version !== 1 && version !== 2) return { colors, errors: ['Not a Photoshop swatches file'] };
+    readSection(version === 2, section);
+    // Version 1 files are usually followed by a version 2 copy that adds names
+    if (reader.remaining() >= 4 && reader.u16() === 2) {
+      const named: (ImportedColor | string)[] = [];
+      try {
+        readSection(true, named);
+      } finally {
+        // A cut-off named copy only wins if it holds at least as many colors
+        if (named.length >= section.length) section = named;
+      }
+    }
+  } catch (error) {
+    if (isTruncation(error)) errors.push(TRUNCATED);
+  }
+
+  section.forEach(entry => (typeof entry === 'string' ? errors.push(entry) : colors.push(entry)));
+  return { colors, errors };
+};
+
+const parseGpl = (text: string): ParsedPalette => {
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  let name: string | undefined;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed === 'GIMP Palette' || /^Columns:/i.test(trimmed)) return;
+    const header = /^Name:\s*(.*)$/i.exec(trimmed);
+    if (header) {
+      name = header[1].trim() || undefined;
+      return;
+    }
+
+    const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(trimmed);
+    const channels = match?.slice(1, 4).map(Number);
+    if (!match || channels.some(value => value > 255)) {
+      errors.push(`Line ${index + 1}: expected "R G B name" with values 0-255`);
+      return;
+    }
+    const [r, g, b] = channels;
+    colors.push(toColor(match[4].trim() || `Color ${colors.length + 1}`, { r, g, b }));
+  });
+
+  return { name, colors, errors };
+};
+
+// Paint.NET palettes are `;` comments and one AARRGGBB value per line; colors have no names
+const parsePaintNet = (text: string): ParsedPalette => {
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  let name: string | undefined;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    if (trimmed.startsWith(';')) {
+      const header = /^;\s*Palette Name:\s*(.*)$/i.exec(trimmed);
+      if (header) name = header[1].trim() || undefined;
+      return;
+    }
+
+    // Alpha is dropped, as swatches are opaque
+    if (!/^[0-9a-f]{8}$/i.test(trimmed)) {
+      errors.push(`Line ${index + 1}: expected an AARRGGBB hex color`);
+      return;
+    }
+    colors.push(toColor(`Color ${colors.length + 1}`, hexToRgb(trimmed.slice(2))));
+  });
+
+  return { name, colors, errors };
+};
+
+const parseCsvPalette = (text: string): ParsedPalette => {
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { colors, errors: ['File is empty'] };
+
+  const columns = header.map(column => column.toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const nameColumn = column('name', 'label', 'title');
+  const hexColumn = column('hex', 'color', 'value');
+  const noteColumn = column('note', 'notes', 'description');
+  const rgbColumns = [column('r', 'red'), column('g', 'green'), column('b', 'blue')];
+  const hasRgb = rgbColumns.every(position => position >= 0);
+
+  if (hexColumn < 0 && !hasRgb) return { colors, errors: ['Header needs a "hex" column or "r", "g" and "b" columns'] };
+
+  rows.forEach((fields, index) => {
+    const name = (nameColumn >= 0 && fields[nameColumn]) || `Color ${colors.length + 1}`;
+    const note = noteColumn >= 0 ? fields[noteColumn] ?? '' : '';
+    const value = hexColumn >= 0 ? fields[hexColumn] : '';
+    // Accept hex without the leading #
+    let rgb = value ? parseCssColor(/^[0-9a-f]{6}$/i.test(value) ? `#${value}` : value) : null;
+    if (!rgb && hasRgb) {
+      const [r, g, b] = rgbColumns.map(position => Number(fields[position]));
+      if ([r, g, b].every(channel => Number.isFinite(channel) && channel >= 0 && channel <= 255)) rgb = { r, g, b };
+    }
+    // Line numbers count the header
+    if (rgb) colors.push(toColor(name, rgb, note));
+    else errors.push(`Line ${index + 2}: no valid color${value ? ` in "${value}"` : ''}`);
+  });
+
+  return { colors, errors };
+};
+
+// Color syntax parseCssColor may or may not support, as opposed to lengths, fonts and the like
+const looksLikeColor = (value: string) =>
+  /^(#|(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\()/i.test(value) || /^[\d.]+(deg)?\s+[\d.]+%\s+[\d.]+%$/.test(value);
+
+const parseCssVariables = (text: string): ParsedPalette => {
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  for (const [, name, raw] of source.matchAll(/--([A-Za-z0-9_-]+)\s*:\s*([^;}]+)/g)) {
+    const value = raw.trim();
+    const rgb = parseCssColor(value);
+    // Other properties such as `--radius: 0.5rem` are not palette entries
+    if (rgb) colors.push(toColor(name, rgb));
+    else if (looksLikeColor(value)) errors.push(`--${name}: "${value}" is not a supported color`);
+  }
+  if (!colors.length && !errors.length) errors.push('No color custom properties found');
+  return { colors, errors };
+};
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// DTCG colors are either a CSS string or, in newer drafts, `{ colorSpace, components, hex }`
+const parseTokenValue = (value: JsonValue): RGB | string => {
+  if (typeof value === 'string') {
+    if (/^\{.*\}$/.test(value.trim())) return `references ${value.trim()}`;
+    return parseCssColor(value) ?? `"${value}" is not a color`;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (typeof value.hex === 'string') return parseCssColor(value.hex) ?? `"${value.hex}" is not a color`;
+    const components = value.components;
+    if (value.colorSpace === 'srgb' && Array.isArray(components) && components.every(c => typeof c === 'number')) {
+      const [r, g, b] = components as number[];
+      return { r: r * 255, g: g * 255, b: b * 255 };
+    }
+  }
+  return 'unsupported color value';
+};
+
+const parseJsonPalette = (text: string): ParsedPalette => {
+  const colors: ImportedColor[] = [];
+  const errors: string[] = [];
+  let data: JsonValue;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { colors, errors: ['File is not valid JSON'] };
+  }
+
+  // Lists of `{ name, hex }`, or Sketch palettes with 0-1 channels
+  const list = Array.isArray(data) ? data : data && typeof data === 'object' && Array.isArray(data.colors) ? data.colors : null;
+  if (list) {
+    list.forEach((item, index) => {
+      const entry = (item && typeof item === 'object' && !Array.isArray(item) ? item : {}) as Record<string, JsonValue>;
+      const name = typeof entry.name === 'string' && entry.name ? entry.name : `Color ${index + 1}`;
+      const value = entry.hex ?? entry.color ?? entry.value;
+      const { red, green, blue } = entry;
+      const rgb =
+        typeof value === 'string'
+          ? parseCssColor(value)
+          : [red, green, blue].every(channel => typeof channel === 'number')
+            ? { r: (red as number) * 255, g: (green as number) * 255, b: (blue as number) * 255 }
+            : null;
+      if (rgb) colors.push(toColor(name, rgb));
+      else errors.push(`Entry ${index + 1}: no valid color`);
+    });
+    return { colors, errors };
+  }
+
+  if (!data || typeof data !== 'object') return { colors, errors: ['Expected design tokens or a list of colors'] };
+
+  // A single top-level group names the palette, as in our own token export
+  const keys = Object.keys(data).filter(key => !key.startsWith('$'));
+  const root = data as Record<string, JsonValue>;
+  const group = root[keys[0]];
+  const isGroup = group && typeof group === 'object' && !Array.isArray(group) && !('$value' in group) && !('value' in group);
+  const single = keys.length === 1 && isGroup ? keys[0] : undefined;
+
+  const walk = (node: JsonValue, path: string[], inheritedType?: string) => {
+    if (typeof node === 'string') {
+      // Plain `{ "name": "#hex" }` maps
+      const rgb = parseCssColor(node);
+      if (rgb) colors.push(toColor(path.join('-'), rgb));
+      else errors.push(`${path.join('.')}: "${node}" is not a color`);
+      return;
+    }
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return;
+
+    const type = typeof node.$type === 'string' ? node.$type : typeof node.type === 'string' ? node.type : inheritedType;
+    const value = '$value' in node ? node.$value : 'value' in node ? node.value : undefined;
+    if (value !== undefined) {
+      // Tokens of other types (spacing, fonts...) are not palette entries
+      if (type && type !== 'color') return;
+      const description = node.$description ?? node.description;
+      const rgb = parseTokenValue(value);
+      if (typeof rgb === 'string') errors.push(`${path.join('.')}: ${rgb}`);
+      else colors.push(toColor(path.join('-'), rgb, typeof description === 'string' ? description : ''));
+      return;
+    }
+    Object.entries(node).forEach(([key, child]) => {
+      if (!key.startsWith('$')) walk(child, [...path, key], type);
+    });
+  };
+
+  if (single) walk(root[single], []);
+  else walk(data, []);
+  if (!colors.length && !errors.length) errors.push('No color tokens found');
+  return { name: single, colors, errors };
+};
+
+// Paint.NET's header is only a comment: otherwise expect a leading `;` comment or AARRGGBB line and some AARRGGBB values
+const isPaintNet = (text: string) => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (/^;\s*paint\.net/i.test(lines[0] ?? '')) return true;
+  const isValue = (line: string) => /^[0-9a-f]{8}$/i.test(line);
+  return (lines[0]?.startsWith(';') || isValue(lines[0] ?? '')) && lines.some(isValue);
+};
+
+/** Detect the format from the file's signature, extension and content, then parse it. */
+export const parsePaletteFile = (fileName: string, data: ArrayBuffer): PaletteImportResult => {
+  const bytes = new Uint8Array(data);
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported palette';
+  const result = (format: PaletteImportFormat, { name, colors, errors }: ParsedPalette): PaletteImportResult => ({
+    format,
+    name: name || fallbackName,
+    colors,
+    errors,
+  });
+
+  if (String.fromCharCode(...bytes.slice(0, 4)) === 'ASEF' || extension === 'ase') return result('ase', parseAse(bytes));
+  if (extension === 'aco') return result('aco', parseAco(bytes));
+
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+  if (extension === 'gpl' || text.startsWith('GIMP Palette')) return result('gpl', parseGpl(text));
+  if (isPaintNet(text)) return result('paint-net', parsePaintNet(text));
+  if (extension === 'css' || (extension !== 'csv' && /--[\w-]+\s*:/.test(text))) {
+    return result('css', parseCssVariables(text));
+  }
+  if (/^\s*[[{]/.test(text)) return result('json', parseJsonPalette(text));
+  return result('csv', parseCsvPalette(text));
+};
+
+/** For each color, the closest earlier non-duplicate within `threshold` ΔE 2000, if any. */
+export const findDuplicates = (colors: ImportedColor[], threshold: number): (DuplicateMatch | null)[] => {
+  const labs = colors.map(color => rgbToLab(color.rgb));
+  const duplicates: (DuplicateMatch | null)[] = [];
+  labs.forEach((lab, index) => {
+    let best: DuplicateMatch | null = null;
+    for (let other = 0; other < index; other++) {
+      if (duplicates[other]) continue;
+      const deltaE = deltaE2000(labs[other], lab);
+      if (deltaE <= threshold && (!best || deltaE < best.deltaE)) best = { index: other, deltaE };
+    }
+    duplicates.push(best);
+  });
+  return duplicates;
+};
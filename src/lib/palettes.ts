@@ -0,0 +1,81 @@
+import { RGB } from '@/lib/sampling';
+
+export interface Swatch {
+  id: string;
+  name: string;
+  hex: string;
+  rgb: RGB;
+  note: string;
+  captureId?: string; // capture the swatch was added from, if any
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  note: string;
+  swatches: Swatch[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// dataTransfer types for dragging captures and swatches around the palette view
+export const CAPTURE_DRAG_TYPE = 'application/x-pixel-picker-capture';
+export const SWATCH_DRAG_TYPE = 'application/x-pixel-picker-swatch';
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createPalette = (name: string, swatches: Swatch[] = [], note = ''): Palette => {
+  const now = Date.now();
+  return { id: createId('palette'), name, note, swatches, createdAt: now, updatedAt: now };
+};
+
+export const createSwatch = (name: string, hex: string, rgb: RGB, captureId?: string): Swatch => ({
+  id: createId('swatch'),
+  name,
+  hex: hex.toLowerCase(),
+  rgb,
+  note: '',
+  ...(captureId ? { captureId } : {}),
+});
+
+/** Copy with fresh ids so the duplicate can be edited independently. */
+export const duplicatePalette = (palette: Palette, name = `${palette.name} copy`): Palette =>
+  createPalette(
+    name,
+    palette.swatches.map(swatch => ({ ...swatch, id: createId('swatch') })),
+    palette.note
+  );
+
+/** Combine palettes in order, keeping the first swatch of each hex. */
+export const mergePalettes = (palettes: Palette[], name: string): Palette => {
+  const seen = new Set<string>();
+  const swatches: Swatch[] = [];
+  palettes.forEach(palette => {
+    palette.swatches.forEach(swatch => {
+      if (seen.has(swatch.hex)) return;
+      seen.add(swatch.hex);
+      swatches.push({ ...swatch, id: createId('swatch') });
+    });
+  });
+  const note = palettes.map(palette => palette.note.trim()).filter(Boolean).join('\n\n');
+  return createPalette(name, swatches, note);
+};
+
+/** Move the item at `from` so it ends up at index `to`. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+/** Lowercase ASCII words joined by hyphens, for file names and identifiers. */
+export const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
@@ -0,0 +1,91 @@
+import { ColorData, EMPTY_COLOR, RegionStatistic, RGB, rgbToHex, SampleRegion } from '@/lib/sampling';
+
+// Fraction of samples dropped from each end of a channel for the trimmed mean
+const TRIM_FRACTION = 0.1;
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const mean = (values: number[]): number => {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const trimmedMean = (sorted: number[]): number => {
+  const trim = Math.floor(sorted.length * TRIM_FRACTION);
+  return mean(sorted.slice(trim, sorted.length - trim));
+};
+
+const stdDev = (values: number[], average: number): number => {
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+};
+
+const summarize = (values: number[], statistic: RegionStatistic): number => {
+  if (statistic === 'mean') return mean(values);
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return statistic === 'median' ? median(sorted) : trimmedMean(sorted);
+};
+
+/**
+ * Reduce the pixels around (cx, cy) to a single color using the region's
+ * shape and statistic. Pixels outside the buffer are skipped, so regions at
+ * the frame edge are simply smaller.
+ */
+export const sampleRegion = (
+  buffer: PixelBuffer,
+  cx: number,
+  cy: number,
+  region: SampleRegion
+): ColorData => {
+  const { data, width, height } = buffer;
+  const radius = Math.max(0, Math.floor(region.radius));
+  const channels: Record<keyof RGB, number[]> = { r: [], g: [], b: [] };
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (region.shape === 'circle' && dx * dx + dy * dy > radius * radius) continue;
+
+      const x = cx + dx;
+      const y = cy + dy;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+      const offset = (y * width + x) * 4;
+      channels.r.push(data[offset]);
+      channels.g.push(data[offset + 1]);
+      channels.b.push(data[offset + 2]);
+    }
+  }
+
+  const sampleCount = channels.r.length;
+  if (!sampleCount) {
+    return { ...EMPTY_COLOR, stats: { sampleCount: 0, stdDev: { r: 0, g: 0, b: 0 } } };
+  }
+
+  const rgb: RGB = {
+    r: Math.round(summarize(channels.r, region.statistic)),
+    g: Math.round(summarize(channels.g, region.statistic)),
+    b: Math.round(summarize(channels.b, region.statistic)),
+  };
+
+  return {
+    hex: rgbToHex(rgb.r, rgb.g, rgb.b),
+    rgb,
+    stats: {
+      sampleCount,
+      stdDev: {
+        r: stdDev(channels.r, mean(channels.r)),
+        g: stdDev(channels.g, mean(channels.g)),
+        b: stdDev(channels.b, mean(channels.b)),
+      },
+    },
+  };
+};
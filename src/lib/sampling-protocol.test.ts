@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ReadableContext } from '@/lib/frame-capture';
+import { FramePoint } from '@/lib/frame-sampler';
+import { createSamplingHandler, SampleFrameRequest } from '@/lib/sampling-protocol';
+import { DEFAULT_SAMPLE_REGION, DEFAULT_TEMPORAL_SETTINGS, RGB } from '@/lib/sampling';
+
+const WIDTH = 4;
+const HEIGHT = 3;
+
+// A canvas filled with one color, standing in for OffscreenCanvasRenderingContext2D
+const createStubContext = (fill: RGB) => {
+  const ctx = {
+    canvas: { width: WIDTH, height: HEIGHT },
+    drawImage: vi.fn(),
+    getImageData: vi.fn((x: number, y: number, width: number, height: number) => {
+      const data = new Uint8ClampedArray(width * height * 4);
+      for (let offset = 0; offset < data.length; offset += 4) {
+        data.set([fill.r, fill.g, fill.b, 255], offset);
+      }
+      return { data, width, height };
+    }),
+  };
+  return ctx as typeof ctx & ReadableContext;
+};
+
+const createFrame = () => ({ width: WIDTH, height: HEIGHT, close: vi.fn() }) as unknown as ImageBitmap;
+
+const point: FramePoint = {
+  id: 'a',
+  x: 1,
+  y: 1,
+  region: DEFAULT_SAMPLE_REGION,
+  temporal: DEFAULT_TEMPORAL_SETTINGS,
+};
+
+const request = (frame: ImageBitmap, frameId = 1, timestamp = 0): SampleFrameRequest => ({
+  type: 'sample',
+  frameId,
+  frame,
+  points: [point],
+  timestamp,
+});
+
+describe('createSamplingHandler', () => {
+  it('draws the frame and returns the color under each point', () => {
+    const ctx = createStubContext({ r: 255, g: 128, b: 0 });
+    const getContext = vi.fn(() => ctx);
+    const frame = createFrame();
+
+    const response = createSamplingHandler(getContext)(request(frame, 7));
+
+    expect(getContext).toHaveBeenCalledWith(WIDTH, HEIGHT);
+    expect(ctx.drawImage).toHaveBeenCalledWith(frame, 0, 0);
+    expect(response).toMatchObject({
+      type: 'result',
+      frameId: 7,
+      colors: { a: { hex: '#ff8000', rgb: { r: 255, g: 128, b: 0 } } },
+    });
+    expect(frame.close).toHaveBeenCalledOnce();
+  });
+
+  it('keeps smoothing state between frames', () => {
+    let fill: RGB = { r: 0, g: 0, b: 0 };
+    const handle = createSamplingHandler(() => createStubContext(fill));
+    const smoothed = { ...point, temporal: { ...DEFAULT_TEMPORAL_SETTINGS, mode: 'ema' as const, alpha: 0.5 } };
+
+    handle({ ...request(createFrame(), 1), points: [smoothed] });
+    fill = { r: 200, g: 100, b: 50 };
+    const response = handle({ ...request(createFrame(), 2, 33), points: [smoothed] });
+
+    expect(response).toMatchObject({ type: 'result', frameId: 2, colors: { a: { rgb: { r: 100, g: 50, b: 25 } } } });
+  });
+
+  it('reports an error when no 2D context is available', () => {
+    const frame = createFrame();
+
+    const response = createSamplingHandler(() => null)(request(frame, 3));
+
+    expect(response).toEqual({ type: 'error', frameId: 3, message: '2D context unavailable' });
+    expect(frame.close).toHaveBeenCalledOnce();
+  });
+
+  it('reports an error when drawing the frame fails', () => {
+    const ctx = createStubContext({ r: 0, g: 0, b: 0 });
+    ctx.drawImage.mockImplementation(() => {
+      throw new Error('The image source is detached');
+    });
+    const frame = createFrame();
+
+    const response = createSamplingHandler(() => ctx)(request(frame, 4));
+
+    expect(response).toEqual({ type: 'error', frameId: 4, message: 'The image source is detached' });
+    expect(frame.close).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,55 @@
+import { ReadableContext } from '@/lib/frame-capture';
+import { createFrameSampler, FramePoint } from '@/lib/frame-sampler';
+import { ColorData } from '@/lib/sampling';
+
+export interface SampleFrameRequest {
+  type: 'sample';
+  frameId: number;
+  frame: ImageBitmap;
+  points: FramePoint[];
+  timestamp: number;
+}
+
+export type SamplingRequest = SampleFrameRequest;
+
+export interface SampleFrameResult {
+  type: 'result';
+  frameId: number;
+  colors: Record<string, ColorData>;
+}
+
+export interface SamplingError {
+  type: 'error';
+  frameId: number;
+  message: string;
+}
+
+export type SamplingResponse = SampleFrameResult | SamplingError;
+
+/**
+ * Build the worker's message handler. The drawing surface is injected so the
+ * protocol can be exercised without a real OffscreenCanvas.
+ */
+export const createSamplingHandler = (
+  getContext: (width: number, height: number) => ReadableContext | null
+) => {
+  const sampler = createFrameSampler();
+
+  return (request: SamplingRequest): SamplingResponse => {
+    const { frame, frameId } = request;
+
+    try {
+      const ctx = getContext(frame.width, frame.height);
+      if (!ctx) {
+        return { type: 'error', frameId, message: '2D context unavailable' };
+      }
+
+      ctx.drawImage(frame, 0, 0);
+      return { type: 'result', frameId, colors: sampler.sample(ctx, request.points, request.timestamp) };
+    } catch (error) {
+      return { type: 'error', frameId, message: error instanceof Error ? error.message : String(error) };
+    } finally {
+      frame.close();
+    }
+  };
+};
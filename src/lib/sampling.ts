@@ -0,0 +1,101 @@
+import { ColorFormatId, DEFAULT_CARD_FORMATS } from '@/lib/color-formats';
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export type RegionShape = 'square' | 'circle';
+
+export type RegionStatistic = 'mean' | 'median' | 'trimmed-mean';
+
+export interface SampleRegion {
+  radius: number; // pixels around the center; 0 reads a single pixel
+  shape: RegionShape;
+  statistic: RegionStatistic;
+}
+
+export type SmoothingMode = 'off' | 'ema' | 'window';
+
+export interface TemporalSettings {
+  mode: SmoothingMode;
+  alpha: number; // EMA weight of the newest frame (0-1)
+  windowSize: number; // frames averaged in rolling-window mode
+  stableDelta: number; // max per-channel drift still considered stable
+  stableDurationMs: number; // how long the color must hold before it is stable
+}
+
+export interface RegionStats {
+  sampleCount: number;
+  stdDev: RGB;
+}
+
+export interface ColorData {
+  hex: string;
+  rgb: RGB;
+  stats?: RegionStats;
+  stable?: boolean;
+  raw?: { hex: string; rgb: RGB }; // uncorrected reading when a calibration is active
+}
+
+export interface SamplingPoint {
+  id: string;
+  name: string;
+  x: number; // percentage of the source frame width (0-100)
+  y: number; // percentage of the source frame height (0-100)
+  region: SampleRegion;
+  temporal: TemporalSettings;
+  formats: ColorFormatId[]; // extra notations shown on the point's card
+}
+
+export const MAX_SAMPLING_POINTS = 12;
+
+export const MAX_REGION_RADIUS = 25;
+
+export const DEFAULT_SAMPLE_REGION: SampleRegion = { radius: 1, shape: 'square', statistic: 'mean' };
+
+export const MAX_SMOOTHING_WINDOW = 30;
+
+export const DEFAULT_TEMPORAL_SETTINGS: TemporalSettings = {
+  mode: 'off',
+  alpha: 0.3,
+  windowSize: 5,
+  stableDelta: 4,
+  stableDurationMs: 1000,
+};
+
+export const EMPTY_COLOR: ColorData = { hex: '#000000', rgb: { r: 0, g: 0, b: 0 } };
+
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  return `#${[r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Convert a point's percentage position to the source pixel it covers,
+ * keeping 100% on the last row/column instead of one past the edge.
+ */
+export const toSourcePixel = (percent: number, size: number): number => {
+  return Math.max(0, Math.min(size - 1, Math.floor((percent / 100) * size)));
+};
+
+let pointCounter = 0;
+
+export const createSamplingPoint = (
+  point: Omit<SamplingPoint, 'id' | 'region' | 'temporal' | 'formats'> &
+    Partial<Pick<SamplingPoint, 'region' | 'temporal' | 'formats'>>
+): SamplingPoint => {
+  pointCounter += 1;
+  return {
+    id: `point-${Date.now().toString(36)}-${pointCounter}`,
+    region: DEFAULT_SAMPLE_REGION,
+    temporal: DEFAULT_TEMPORAL_SETTINGS,
+    formats: DEFAULT_CARD_FORMATS,
+    ...point,
+  };
+};
+
+export const DEFAULT_SAMPLING_POINTS: SamplingPoint[] = [
+  createSamplingPoint({ name: 'Top Sample', x: 50, y: 20 }),
+  createSamplingPoint({ name: 'Bottom Sample', x: 50, y: 80 }),
+];
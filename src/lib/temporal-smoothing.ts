@@ -0,0 +1,78 @@
+import { ColorData, RGB, rgbToHex, TemporalSettings } from '@/lib/sampling';
+
+export interface SmoothingState {
+  ema: RGB | null;
+  history: RGB[];
+  anchor: RGB | null; // color the current stable stretch started from
+  stableSince: number;
+}
+
+export const createSmoothingState = (): SmoothingState => ({
+  ema: null,
+  history: [],
+  anchor: null,
+  stableSince: 0,
+});
+
+const averageRgb = (colors: RGB[]): RGB => {
+  const sum = colors.reduce(
+    (acc, color) => ({ r: acc.r + color.r, g: acc.g + color.g, b: acc.b + color.b }),
+    { r: 0, g: 0, b: 0 }
+  );
+  return { r: sum.r / colors.length, g: sum.g / colors.length, b: sum.b / colors.length };
+};
+
+const maxChannelDelta = (a: RGB, b: RGB): number => {
+  return Math.max(Math.abs(a.r - b.r), Math.abs(a.g - b.g), Math.abs(a.b - b.b));
+};
+
+/**
+ * Fold a new frame's reading into the point's smoothing state and return the
+ * color to display. The reading is marked stable once it has stayed within
+ * `stableDelta` of where it settled for at least `stableDurationMs`.
+ */
+export const smoothColor = (
+  state: SmoothingState,
+  sample: ColorData,
+  settings: TemporalSettings,
+  now: number
+): ColorData => {
+  let value: RGB = sample.rgb;
+
+  if (settings.mode === 'ema') {
+    const alpha = Math.max(0, Math.min(1, settings.alpha));
+    state.ema = state.ema
+      ? {
+          r: state.ema.r + alpha * (sample.rgb.r - state.ema.r),
+          g: state.ema.g + alpha * (sample.rgb.g - state.ema.g),
+          b: state.ema.b + alpha * (sample.rgb.b - state.ema.b),
+        }
+      : { ...sample.rgb };
+    state.history = [];
+    value = state.ema;
+  } else if (settings.mode === 'window') {
+    state.history.push(sample.rgb);
+    if (state.history.length > settings.windowSize) {
+      state.history.splice(0, state.history.length - settings.windowSize);
+    }
+    state.ema = null;
+    value = averageRgb(state.history);
+  } else {
+    state.ema = null;
+    state.history = [];
+  }
+
+  if (!state.anchor || maxChannelDelta(state.anchor, value) > settings.stableDelta) {
+    state.anchor = { ...value };
+    state.stableSince = now;
+  }
+
+  const rgb: RGB = { r: Math.round(value.r), g: Math.round(value.g), b: Math.round(value.b) };
+
+  return {
+    ...sample,
+    hex: rgbToHex(rgb.r, rgb.g, rgb.b),
+    rgb,
+    stable: now - state.stableSince >= settings.stableDurationMs,
+  };
+};
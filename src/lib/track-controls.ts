@@ -0,0 +1,108 @@
+/**
+ * Image-capture extensions to MediaStreamTrack constraints. These are not in
+ * the DOM typings yet and are only reported by cameras that support them.
+ */
+export interface RangeCapability {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export type ModeControlKey = 'exposureMode' | 'whiteBalanceMode' | 'focusMode';
+
+export type RangeControlKey =
+  | 'exposureCompensation'
+  | 'exposureTime'
+  | 'colorTemperature'
+  | 'focusDistance'
+  | 'zoom';
+
+export type TrackCapabilities = Partial<Record<ModeControlKey, string[]>> &
+  Partial<Record<RangeControlKey, RangeCapability>> & {
+    torch?: boolean;
+  };
+
+export type TrackControlValues = Partial<Record<ModeControlKey, string>> &
+  Partial<Record<RangeControlKey, number>> & {
+    torch?: boolean;
+  };
+
+export interface ModeControl {
+  key: ModeControlKey;
+  label: string;
+}
+
+export interface RangeControl {
+  key: RangeControlKey;
+  label: string;
+  // Mode that must be 'manual' for the value to take effect
+  requiresManual?: ModeControlKey;
+}
+
+export const MODE_CONTROLS: ModeControl[] = [
+  { key: 'exposureMode', label: 'Exposure' },
+  { key: 'whiteBalanceMode', label: 'White balance' },
+  { key: 'focusMode', label: 'Focus' },
+];
+
+export const RANGE_CONTROLS: RangeControl[] = [
+  { key: 'exposureCompensation', label: 'Exposure compensation' },
+  { key: 'exposureTime', label: 'Exposure time', requiresManual: 'exposureMode' },
+  { key: 'colorTemperature', label: 'Color temperature (K)', requiresManual: 'whiteBalanceMode' },
+  { key: 'focusDistance', label: 'Focus distance', requiresManual: 'focusMode' },
+  { key: 'zoom', label: 'Zoom' },
+];
+
+// Each auto mode and the value it settles on, frozen together by "lock all"
+const LOCKABLE: { mode: ModeControlKey; value: RangeControlKey }[] = [
+  { mode: 'exposureMode', value: 'exposureTime' },
+  { mode: 'whiteBalanceMode', value: 'colorTemperature' },
+  { mode: 'focusMode', value: 'focusDistance' },
+];
+
+export const getTrackCapabilities = (track: MediaStreamTrack): TrackCapabilities => {
+  return (track.getCapabilities?.() ?? {}) as TrackCapabilities;
+};
+
+export const getTrackValues = (track: MediaStreamTrack): TrackControlValues => {
+  return track.getSettings() as TrackControlValues;
+};
+
+export const hasAnyControl = (capabilities: TrackCapabilities) => {
+  return (
+    MODE_CONTROLS.some(control => capabilities[control.key]?.length) ||
+    RANGE_CONTROLS.some(control => capabilities[control.key]) ||
+    !!capabilities.torch
+  );
+};
+
+/**
+ * Constraints that pin every supported auto mode to 'manual' at the value the
+ * camera is currently using, so readings stop drifting with the scene.
+ */
+export const buildLockConstraints = (
+  capabilities: TrackCapabilities,
+  current: TrackControlValues
+): TrackControlValues => {
+  const constraints: TrackControlValues = {};
+
+  LOCKABLE.forEach(({ mode, value }) => {
+    if (!capabilities[mode]?.includes('manual')) return;
+    constraints[mode] = 'manual';
+    if (capabilities[value] && current[value] !== undefined) {
+      constraints[value] = current[value];
+    }
+  });
+
+  return constraints;
+};
+
+export const buildUnlockConstraints = (capabilities: TrackCapabilities): TrackControlValues => {
+  const constraints: TrackControlValues = {};
+
+  LOCKABLE.forEach(({ mode }) => {
+    if (capabilities[mode]?.includes('continuous')) constraints[mode] = 'continuous';
+  });
+
+  return constraints;
+};
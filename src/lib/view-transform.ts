@@ -0,0 +1,157 @@
+export type ObjectFit = 'contain' | 'cover' | 'fill';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ViewOptions {
+  fit: ObjectFit;
+  mirrored: boolean;
+  rotation: Rotation; // clockwise, applied after mirroring
+}
+
+// Pinch/pan applied on top of the fitted view, around the container center
+export interface ZoomState {
+  scale: number;
+  x: number; // pan in container pixels
+  y: number;
+}
+
+export interface ViewTransform extends ViewOptions {
+  zoom: ZoomState;
+  containerWidth: number;
+  containerHeight: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = { fit: 'contain', mirrored: false, rotation: 0 };
+
+export const IDENTITY_ZOOM: ZoomState = { scale: 1, x: 0, y: 0 };
+
+export const MAX_ZOOM = 8;
+
+const isQuarterTurn = (rotation: Rotation) => rotation === 90 || rotation === 270;
+
+/**
+ * Size of the video element before rotation. Quarter turns swap the axes so
+ * the rotated element exactly covers the container.
+ */
+export const getElementSize = (t: ViewTransform) => {
+  return isQuarterTurn(t.rotation)
+    ? { width: t.containerHeight, height: t.containerWidth }
+    : { width: t.containerWidth, height: t.containerHeight };
+};
+
+/**
+ * Aspect ratio (width / height) of the source once rotated, used to size the
+ * container so letterboxing only appears when the height cap kicks in.
+ */
+export const getDisplayAspect = (sourceWidth: number, sourceHeight: number, rotation: Rotation) => {
+  return isQuarterTurn(rotation) ? sourceHeight / sourceWidth : sourceWidth / sourceHeight;
+};
+
+// Where the source lands inside the unrotated element, per CSS object-fit
+const getContentRect = (t: ViewTransform) => {
+  const element = getElementSize(t);
+  let scaleX = element.width / t.sourceWidth;
+  let scaleY = element.height / t.sourceHeight;
+
+  if (t.fit !== 'fill') {
+    const scale = t.fit === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+    scaleX = scale;
+    scaleY = scale;
+  }
+
+  return {
+    left: (element.width - t.sourceWidth * scaleX) / 2,
+    top: (element.height - t.sourceHeight * scaleY) / 2,
+    scaleX,
+    scaleY,
+  };
+};
+
+const rotate = ({ x, y }: Point2D, degrees: number): Point2D => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.round(Math.cos(radians));
+  const sin = Math.round(Math.sin(radians));
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+/**
+ * Map a normalized source position (0-1 on each axis) to container pixels,
+ * matching `transform: rotate(θ) scaleX(-1)` on a centered video element
+ * inside a stage zoomed by `getStageTransformCss`.
+ */
+export const sourceToDisplay = (t: ViewTransform, u: number, v: number): Point2D => {
+  const element = getElementSize(t);
+  const content = getContentRect(t);
+
+  let point: Point2D = {
+    x: content.left + u * t.sourceWidth * content.scaleX - element.width / 2,
+    y: content.top + v * t.sourceHeight * content.scaleY - element.height / 2,
+  };
+  if (t.mirrored) point.x = -point.x;
+  point = rotate(point, t.rotation);
+
+  return {
+    x: point.x * t.zoom.scale + t.zoom.x + t.containerWidth / 2,
+    y: point.y * t.zoom.scale + t.zoom.y + t.containerHeight / 2,
+  };
+};
+
+/**
+ * Inverse of `sourceToDisplay`. The result is not clamped, so positions in
+ * the letterbox bars fall outside 0-1.
+ */
+export const displayToSource = (t: ViewTransform, x: number, y: number): Point2D => {
+  const element = getElementSize(t);
+  const content = getContentRect(t);
+
+  const unzoomed = {
+    x: (x - t.containerWidth / 2 - t.zoom.x) / t.zoom.scale,
+    y: (y - t.containerHeight / 2 - t.zoom.y) / t.zoom.scale,
+  };
+  const point = rotate(unzoomed, -t.rotation);
+  if (t.mirrored) point.x = -point.x;
+
+  return {
+    x: (point.x + element.width / 2 - content.left) / (t.sourceWidth * content.scaleX),
+    y: (point.y + element.height / 2 - content.top) / (t.sourceHeight * content.scaleY),
+  };
+};
+
+/**
+ * Zoom scale at which one source pixel covers exactly one device pixel, for
+ * pixel-exact previews of screen captures.
+ */
+export const getNativeZoomScale = (t: Omit<ViewTransform, 'zoom'>, devicePixelRatio: number) => {
+  const content = getContentRect({ ...t, zoom: IDENTITY_ZOOM });
+  return 1 / (devicePixelRatio * content.scaleX);
+};
+
+export const getVideoTransformCss = (options: ViewOptions) => {
+  return `translate(-50%, -50%) rotate(${options.rotation}deg) scaleX(${options.mirrored ? -1 : 1})`;
+};
+
+export const getStageTransformCss = (zoom: ZoomState) => {
+  return `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`;
+};
+
+/**
+ * Keep the zoomed stage covering the container so panning never reveals
+ * empty space beyond the original view.
+ */
+export const clampZoom = (zoom: ZoomState, containerWidth: number, containerHeight: number): ZoomState => {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, zoom.scale));
+  const maxX = ((scale - 1) * containerWidth) / 2;
+  const maxY = ((scale - 1) * containerHeight) / 2;
+  return {
+    scale,
+    x: Math.max(-maxX, Math.min(maxX, zoom.x)),
+    y: Math.max(-maxY, Math.min(maxY, zoom.y)),
+  };
+};
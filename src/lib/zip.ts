@@ -0,0 +1,68 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// 1980-01-01, the earliest valid MS-DOS date; timestamps carry no meaning here
+const DOS_EPOCH = (1 << 5) | 1;
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Uncompressed ("stored") zip archive; enough for small generated files. */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = files.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  files.forEach(file => {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 8, 0, true); // method: stored
+    view.setUint16(offset + 12, DOS_EPOCH, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    output.set(file.nameBytes, offset + 30);
+    output.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 14, DOS_EPOCH, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint32(offset + 42, offsets[index], true);
+    output.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return output;
+};
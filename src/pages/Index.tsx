@@ -1,3 +1,6 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Palette } from 'lucide-react';
 import { CameraColorPicker } from '@/components/CameraColorPicker';
 
 const Index = () => {
@@ -11,13 +14,19 @@ const Index = () => {
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
             Use your camera to sample colors in real-time. Perfect for designers, developers, and anyone who needs to identify colors from the world around them.
           </p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link to="/palettes">
+              <Palette className="w-4 h-4 mr-2" />
+              Palettes
+            </Link>
+          </Button>
         </header>
         
         <CameraColorPicker />
         
         <footer className="mt-12 text-center text-muted-foreground">
           <p className="text-sm">
-            Drag the sampling points to position them anywhere on the video feed. Click copy buttons to save hex values to your clipboard.
+            Drag the sampling points to position them anywhere on the video feed. Click copy buttons, or press C for the last moved point, to copy colors in your chosen format. On a frozen or paused frame, arrow keys nudge that point by one pixel.
           </p>
         </footer>
       </main>
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { CaptureHistoryPanel } from '@/components/CaptureHistoryPanel';
+import { PaletteEditor } from '@/components/PaletteEditor';
+import { PaletteList } from '@/components/PaletteList';
+import { useCaptureHistory } from '@/hooks/use-capture-history';
+import { usePalettes } from '@/hooks/use-palettes';
+import { useToast } from '@/hooks/use-toast';
+import { Capture } from '@/lib/capture-history';
+import { ImportedColor } from '@/lib/palette-import';
+import { createPalette, createSwatch, duplicatePalette, mergePalettes } from '@/lib/palettes';
+
+const Palettes = () => {
+  const { toast } = useToast();
+  const {
+    palettes,
+    loaded,
+    loadError,
+    addPalette,
+    updatePalette,
+    removePalette,
+    addSwatch,
+    updateSwatch,
+    removeSwatch,
+    moveSwatch,
+  } = usePalettes();
+  const { captures, loadError: capturesError, removeCapture, clearHistory } = useCaptureHistory();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = palettes.find(palette => palette.id === selectedId) ?? palettes[0] ?? null;
+
+  const select = (id: string) => setSelectedId(id);
+
+  const addCapture = (capture: Capture, index?: number) => {
+    const swatch = createSwatch(capture.pointName, capture.color.hex, capture.color.rgb, capture.id);
+    if (selected) {
+      addSwatch(selected.id, swatch, index);
+    } else {
+      select(addPalette(createPalette('Palette 1', [swatch])).id);
+    }
+  };
+
+  const copyHex = async (capture: Capture) => {
+    try {
+      await navigator.clipboard.writeText(capture.color.hex);
+      toast({
+        title: "Copied!",
+        description: `Color ${capture.color.hex} copied to clipboard`,
+      });
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const merge = (ids: string[]) => {
+    const sources = palettes.filter(palette => ids.includes(palette.id));
+    const merged = addPalette(mergePalettes(sources, sources.map(palette => palette.name).join(' + ')));
+    select(merged.id);
+    toast({
+      title: "Palettes Merged",
+      description: `${merged.name} has ${merged.swatches.length} swatches`,
+    });
+  };
+
+  const importPalette = (name: string, colors: ImportedColor[]) => {
+    const swatches = colors.map(color => ({ ...createSwatch(color.name, color.hex, color.rgb), note: color.note }));
+    select(addPalette(createPalette(name, swatches)).id);
+    toast({
+      title: "Palette Imported",
+      description: `${colors.length} colors in "${name}"`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8">
+        <header className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 text-foreground">Palettes</h1>
+            <p className="text-muted-foreground">Collect captured colors into named, ordered palettes.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Picker
+            </Link>
+          </Button>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6">
+            <PaletteList
+              palettes={palettes}
+              selectedId={selected?.id ?? null}
+              onSelect={select}
+              onCreate={(name) => select(addPalette(createPalette(name)).id)}
+              onMerge={merge}
+              onImport={importPalette}
+            />
+            <CaptureHistoryPanel
+              captures={captures}
+              loadError={capturesError}
+              onAdd={(capture) => addCapture(capture)}
+              onCopy={copyHex}
+              onRemove={(id) => removeCapture(id).catch(error => console.error('Failed to delete capture:', error))}
+              onClear={() => clearHistory().catch(error => console.error('Failed to clear capture history:', error))}
+            />
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected ? (
+              <PaletteEditor
+                key={selected.id}
+                palette={selected}
+                onChange={(changes) => updatePalette(selected.id, palette => ({ ...palette, ...changes }))}
+                onDuplicate={() => select(addPalette(duplicatePalette(selected)).id)}
+                onDelete={() => removePalette(selected.id)}
+                onDropCapture={(captureId, index) => {
+                  const capture = captures.find(other => other.id === captureId);
+                  if (capture) addCapture(capture, index);
+                }}
+                onMoveSwatch={(from, to) => moveSwatch(selected.id, from, to)}
+                onUpdateSwatch={(id, changes) => updateSwatch(selected.id, id, changes)}
+                onRemoveSwatch={(id) => removeSwatch(selected.id, id)}
+              />
+            ) : loadError ? (
+              <p className="py-12 text-center text-destructive">Palettes could not be loaded: {loadError}</p>
+            ) : (
+              loaded && (
+                <p className="py-12 text-center text-muted-foreground">
+                  No palettes yet. Create one, or add a capture to start your first palette.
+                </p>
+              )
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Palettes;
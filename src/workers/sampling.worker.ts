@@ -0,0 +1,17 @@
+import { createSamplingHandler, SamplingRequest } from '@/lib/sampling-protocol';
+
+let canvas: OffscreenCanvas | null = null;
+
+const handleRequest = createSamplingHandler((width, height) => {
+  if (!canvas) {
+    canvas = new OffscreenCanvas(width, height);
+  } else if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas.getContext('2d', { willReadFrequently: true });
+});
+
+self.onmessage = (event: MessageEvent<SamplingRequest>) => {
+  self.postMessage(handleRequest(event.data));
+};